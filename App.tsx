@@ -1,16 +1,51 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Dropzone } from './components/Dropzone';
 import { LayerCanvas } from './components/LayerCanvas';
 import { LayerList } from './components/LayerList';
+import { HistoryPanel } from './components/HistoryPanel';
 import { AnalysisPanel } from './components/AnalysisPanel';
-import { analyzeThumbnail } from './services/geminiService';
-import { AppState, ProcessingResult } from './types';
-import JSZip from 'jszip'; // Not importing to avoid deps, will assume raw JSON export
+import { SettingsPanel } from './components/SettingsPanel';
+import { BatchView } from './components/BatchView';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { CompareView } from './components/CompareView';
+import { LocalizeView } from './components/LocalizeView';
+import { RecomposeView } from './components/RecomposeView';
+import { PROVIDERS, analyzeFace, analyzeImageSource, hasCredentials, loadProviderSettings, recognizeText, saveProviderSettings } from './services/analysisService';
+import { ProviderSettings } from './services/analysisProvider';
+import { createProjectId, getProject, saveProject, updateProjectResult } from './services/projectStore';
+import { generateLayerMask } from './utils/segmentation';
+import { buildPsd } from './utils/psdExport';
+import { buildZipBundle } from './utils/zipExport';
+import { buildSvg } from './utils/svgExport';
+import { PROJECT_FILE_EXTENSION, buildProjectFile, parseProjectFile } from './utils/projectFile';
+import { prepareImageFile } from './utils/imageInput';
+import { findBackgroundLayer, generateCleanPlate, isCleanPlateOutdated } from './utils/cleanPlate';
+import { createComposition } from './utils/compose';
+import { averageColor, createThumbnail, dataUrlToBlob, downloadBlob, loadImage, readFileAsDataUrl, toFileName } from './utils/imageProcessing';
+import { analyzeComposition, computePixelStats } from './utils/compositionMetrics';
+import {
+  HistoryState,
+  LayerCommand,
+  addLayersCommand,
+  compositeCommand,
+  emptyHistory,
+  pushCommand,
+  removeLayersCommand,
+  reorderCommand,
+  toggleVisibilityCommand,
+  updateLayerCommand
+} from './utils/history';
+import { gatherLayers, mergeLayers, moveLayersAbove, zIndexMap } from './utils/layerTree';
+import { AnalysisProgress, AnalysisStage, AppState, BatchItem, BoundingBox, CompareVariant, CompositionDocument, ElementType, FaceAttributes, LayerData, ProcessingResult, ProjectFile, StoredProject, TextAttributes } from './types';
 
-// Mock ZIP functionality alert since we can't easily include JSZip CDN in this strict file structure
-// without potentially breaking the "handful of files" rule with complex loaders. 
-// However, the prompt allows popular libraries. I'll rely on a basic JSON export 
-// and single file downloads to keep the "no-build-step" vibe of the output code clean.
+const ANALYSIS_STAGES: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'UPLOADING', label: 'Uploading image' },
+  { stage: 'DETECTING', label: 'Detecting layers' },
+  { stage: 'CRITIQUING', label: 'Critiquing composition' },
+];
+
+// Identifies a layer at its current geometry; per-layer caches must not outlive a box edit
+const layerBoxKey = (l: LayerData) => `${l.id}|${l.box.xmin},${l.box.ymin},${l.box.xmax},${l.box.ymax}`;
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
@@ -23,54 +58,584 @@ const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'layers' | 'analysis'>('layers');
   const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
   const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [compareVariants, setCompareVariants] = useState<CompareVariant[] | null>(null);
+  const [showLocalize, setShowLocalize] = useState(false);
+  const [showRecompose, setShowRecompose] = useState(false);
+  const [generatingPlate, setGeneratingPlate] = useState(false);
+  // Bumped whenever another image is opened, so late async work for the previous one is dropped
+  const editorToken = useRef(0);
+  const batchProjects = useRef<Record<string, string>>({});
+  // Masks by layer id + box, so undoing a box edit restores the previous mask without re-segmenting
+  const maskCache = useRef<Map<string, string | null>>(new Map());
+  // Text recognition and face analysis by layer id + box; kept as promises so undo and re-added layers reuse the answer
+  const textCache = useRef<Map<string, Promise<TextAttributes>>>(new Map());
+  const faceCache = useRef<Map<string, Promise<FaceAttributes | null>>>(new Map());
+  const analysisController = useRef<AbortController | null>(null);
+  // Layers the user asked to read; provider calls for details are never made unprompted
+  const [detailRequests, setDetailRequests] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  // Layers as they were when the image was opened; live scores are compared against them
+  const [baselineLayers, setBaselineLayers] = useState<LayerData[] | null>(null);
+
+  // Aborts the in-flight analysis request, if any
+  const cancelAnalysis = () => {
+    analysisController.current?.abort();
+    analysisController.current = null;
+    setProgress(null);
+  };
+
+  // Resets per-image editor state and decodes the new source
+  const prepareEditor = (imageSrc: string) => {
+    editorToken.current++;
+    cancelAnalysis();
+    setProjectId(null);
+    setHistory(emptyHistory);
+    setSelectedLayerId(null);
+    maskCache.current.clear();
+    textCache.current.clear();
+    faceCache.current.clear();
+    setDetailRequests(new Set());
+    setShowLocalize(false);
+    setShowRecompose(false);
+    setBaselineLayers(null);
 
-  const handleImageSelected = async (base64: string, file: File) => {
-    setState(prev => ({ ...prev, status: 'ANALYZING', imageSrc: base64, error: null }));
-    
     // Create HTML image object for later cropping
+    setOriginalImage(null);
     const img = new Image();
-    img.src = base64;
+    img.src = imageSrc;
     img.onload = () => setOriginalImage(img);
+  };
+
+  const handleImageSelected = async (base64: string, file: File) => {
+    setState(prev => ({ ...prev, status: 'ANALYZING', imageSrc: base64, error: null }));
+    prepareEditor(base64);
+    const token = editorToken.current;
+    const controller = new AbortController();
+    analysisController.current = controller;
+    setProgress({ stage: 'UPLOADING', layers: [] });
 
     try {
-      // Split base64 for API
-      const base64Data = base64.split(',')[1];
-      const result = await analyzeThumbnail(base64Data);
-      
+      const result = await analyzeImageSource(base64, providerSettings, {
+        signal: controller.signal,
+        onProgress: p => {
+          if (token === editorToken.current) setProgress(p);
+        }
+      });
+      // Another image (or none) took over while this one was in flight
+      if (token !== editorToken.current) return;
+
       setState(prev => ({ 
         ...prev, 
         status: 'SUCCESS', 
         result 
       }));
+      setBaselineLayers(result.layers);
+      requestFaces(result.layers);
+      createProject(file.name, base64, result);
     } catch (err: any) {
+      if (token !== editorToken.current || controller.signal.aborted) return;
       setState(prev => ({ 
         ...prev, 
         status: 'ERROR', 
         error: err.message || "Failed to analyze image" 
       }));
+    } finally {
+      if (analysisController.current === controller) {
+        analysisController.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  // Stores a freshly analyzed image in the local project library
+  const createProject = async (name: string, imageSrc: string, result: ProcessingResult, originalResult: ProcessingResult = result) => {
+    const token = editorToken.current;
+    try {
+      const now = Date.now();
+      const project: StoredProject = {
+        id: createProjectId(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        image: await dataUrlToBlob(imageSrc),
+        thumbnail: createThumbnail(await loadImage(imageSrc)),
+        originalResult,
+        result
+      };
+      await saveProject(project);
+      if (token === editorToken.current) setProjectId(project.id);
+      return project.id;
+    } catch (err) {
+      console.error("Project Save Error:", err);
+      return null;
+    }
+  };
+
+  const handleOpenProject = async (project: StoredProject) => {
+    let imageSrc: string;
+    try {
+      imageSrc = await readFileAsDataUrl(project.image);
+    } catch (err: any) {
+      console.error("Project Open Error:", err);
+      setState(prev => ({
+        ...prev,
+        status: 'ERROR',
+        error: `Could not open "${project.name}": ${err.message || 'the stored image is unreadable'}`
+      }));
+      return;
+    }
+    prepareEditor(imageSrc);
+    setProjectId(project.id);
+    setState({ status: 'SUCCESS', imageSrc, result: project.result, error: null });
+    setBaselineLayers(project.originalResult.layers);
+  };
+
+  // Opens a shared .tsep file (or a legacy JSON export plus its image) and adds it to the library
+  const handleProjectFileSelected = async (file: File, imageFile?: File) => {
+    let image: ProjectFile['image'] | undefined;
+    if (imageFile) {
+      const dataUrl = await prepareImageFile(imageFile);
+      const img = await loadImage(dataUrl);
+      image = { dataUrl, width: img.naturalWidth, height: img.naturalHeight };
+    }
+    const project = parseProjectFile(await file.text(), image);
+
+    prepareEditor(project.image.dataUrl);
+    setState({ status: 'SUCCESS', imageSrc: project.image.dataUrl, result: project.result, error: null });
+    setBaselineLayers(project.originalResult.layers);
+    createProject(project.name, project.image.dataUrl, project.result, project.originalResult);
+  };
+
+  const handleCompareProjects = async (projects: StoredProject[]) => {
+    const failed: string[] = [];
+    const loaded = await Promise.all(projects.map(async (project): Promise<CompareVariant | null> => {
+      try {
+        return { id: project.id, name: project.name, imageSrc: await readFileAsDataUrl(project.image), result: project.result };
+      } catch (err) {
+        console.error("Compare Load Error:", err);
+        failed.push(project.name);
+        return null;
+      }
+    }));
+    const variants = loaded.filter((v): v is CompareVariant => v !== null);
+    if (failed.length > 0) {
+      alert(`Could not load ${failed.map(name => `"${name}"`).join(', ')} for comparison`);
+    }
+    if (variants.length > 0) setCompareVariants(variants);
+  };
+
+  const handleCompareCurrent = () => {
+    if (!state.result || !state.imageSrc) return;
+    setCompareVariants([{ id: projectId ?? 'current', name: 'Current', imageSrc: state.imageSrc, result: state.result }]);
+  };
+
+  // Autosave edits to the open project
+  useEffect(() => {
+    if (!projectId || !state.result) return;
+    const result = state.result;
+    const timer = setTimeout(() => {
+      updateProjectResult(projectId, result).catch(err => console.error("Project Save Error:", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [projectId, state.result]);
+
+  const handleBatchSelected = (files: File[]) => {
+    setBatchFiles(files);
+    setState({ status: 'BATCH', imageSrc: null, result: null, error: null });
+  };
+
+  const handleOpenBatchItem = async (item: BatchItem) => {
+    if (!item.result) return;
+
+    // Reopen the project created the first time, so earlier edits are kept
+    const existing = batchProjects.current[item.id] && await getProject(batchProjects.current[item.id]);
+    if (existing) {
+      handleOpenProject(existing);
+      return;
+    }
+
+    prepareEditor(item.imageSrc);
+    setState({ status: 'SUCCESS', imageSrc: item.imageSrc, result: item.result, error: null });
+    setBaselineLayers(item.result.layers);
+    requestFaces(item.result.layers);
+    const id = await createProject(item.fileName, item.imageSrc, item.result);
+    if (id) batchProjects.current[item.id] = id;
+  };
+
+  const handleNewProject = () => {
+    editorToken.current++;
+    cancelAnalysis();
+    setState({ status: 'IDLE', imageSrc: null, result: null, error: null });
+    setHistory(emptyHistory);
+    setBatchFiles(null);
+    setProjectId(null);
+  };
+
+  // Segment each layer into an alpha mask once both the image and the layers are available
+  useEffect(() => {
+    if (!originalImage || !state.result) return;
+    const pending = state.result.layers.filter(l => !l.maskUrl && maskCache.current.get(layerBoxKey(l)) !== null);
+    if (pending.length === 0) return;
+
+    const masks: Record<string, string> = {};
+    pending.forEach(layer => {
+      const key = layerBoxKey(layer);
+      if (!maskCache.current.has(key)) {
+        maskCache.current.set(key, generateLayerMask(originalImage, layer) ?? null);
+      }
+      const mask = maskCache.current.get(key);
+      if (mask) masks[layer.id] = mask;
+    });
+    if (Object.keys(masks).length === 0) return;
+
+    setState(prev => ({
+      ...prev,
+      result: prev.result ? {
+        ...prev.result,
+        layers: prev.result.layers.map(l => masks[l.id] ? { ...l, maskUrl: masks[l.id] } : l)
+      } : null
+    }));
+  }, [originalImage, state.result]);
+
+  // Offline, details are free pixel estimates and fill in by themselves; with a provider they cost a call each
+  const autoDetails = !hasCredentials(providerSettings);
+  const wantsDetails = (l: LayerData) => autoDetails || detailRequests.has(l.id);
+
+  const handleRequestDetails = (ids: string[]) => {
+    setDetailRequests(prev => new Set([...prev, ...ids]));
+  };
+
+  // Fresh analyses read faces right away: the Eye Contact score needs them, restored projects already have them
+  const requestFaces = (layers: LayerData[]) => {
+    handleRequestDetails(layers.filter(l => l.type === ElementType.PERSON).map(l => l.id));
+  };
+
+  // Read the content and typography of requested TEXT layers that don't have it yet
+  useEffect(() => {
+    if (!originalImage || !state.result) return;
+    const pending = state.result.layers.filter(l => l.type === ElementType.TEXT && !l.text && wantsDetails(l));
+    if (pending.length === 0) return;
+    const token = editorToken.current;
+
+    pending.forEach(layer => {
+      const key = layerBoxKey(layer);
+      if (!textCache.current.has(key)) {
+        textCache.current.set(key, recognizeText(originalImage, layer, providerSettings));
+      }
+      textCache.current.get(key)!.then(text => {
+        if (token !== editorToken.current) return;
+        // Skip answers for a box that has been edited since
+        updateLayers(layers => layers.map(l => layerBoxKey(l) === key && !l.text ? { ...l, text } : l));
+      }).catch(err => console.error("Text Recognition Error:", err));
+    });
+  }, [originalImage, state.result, detailRequests, autoDetails]);
+
+  // Find the face, gaze and expression of requested PERSON layers that haven't been checked yet
+  useEffect(() => {
+    if (!originalImage || !state.result) return;
+    const pending = state.result.layers.filter(l => l.type === ElementType.PERSON && l.face === undefined && wantsDetails(l));
+    if (pending.length === 0) return;
+    const token = editorToken.current;
+
+    pending.forEach(layer => {
+      const key = layerBoxKey(layer);
+      if (!faceCache.current.has(key)) {
+        faceCache.current.set(key, analyzeFace(originalImage, layer, providerSettings));
+      }
+      faceCache.current.get(key)!.then(face => {
+        if (token !== editorToken.current) return;
+        // Face boxes are in image coordinates, so an answer for an edited box is stale
+        updateLayers(layers => layers.map(l => layerBoxKey(l) === key && l.face === undefined ? { ...l, face } : l));
+      }).catch(err => console.error("Face Analysis Error:", err));
+    });
+  }, [originalImage, state.result, detailRequests, autoDetails]);
+
+  // Pixel statistics only depend on the image; the layer-based scores are cheap to redo
+  const pixelStats = useMemo(() => originalImage ? computePixelStats(originalImage) : null, [originalImage]);
+  const localAnalysis = useMemo(() => {
+    if (!originalImage || !pixelStats || !state.result) return null;
+    return analyzeComposition(originalImage, state.result.layers, pixelStats);
+  }, [originalImage, pixelStats, state.result?.layers]);
+  const baselineAnalysis = useMemo(() => {
+    if (!originalImage || !pixelStats || !baselineLayers) return null;
+    return analyzeComposition(originalImage, baselineLayers, pixelStats);
+  }, [originalImage, pixelStats, baselineLayers]);
+
+  const updateLayers = (update: (layers: LayerData[]) => LayerData[]) => {
+    setState(prev => ({
+      ...prev,
+      result: prev.result ? { ...prev.result, layers: update(prev.result.layers) } : null
+    }));
+  };
+
+  // All user edits to the layers go through here so they can be undone
+  const executeCommand = (edit: LayerCommand) => {
+    const layers = state.result?.layers ?? [];
+    const next = edit.apply(layers);
+    const background = findBackgroundLayer(next);
+    // A plate painted for other foreground layers would show holes or ghosts; drop it with the same undo step
+    const command = background?.fillUrl && isCleanPlateOutdated(layers, next)
+      ? compositeCommand(edit.label, [
+          edit,
+          updateLayerCommand('', background.id, { fillUrl: background.fillUrl }, { fillUrl: undefined })
+        ])
+      : edit;
+    updateLayers(command.apply);
+    setHistory(prev => pushCommand(prev, command));
+  };
+
+  // Moves the history cursor so that `target` commands are applied
+  const handleJumpHistory = (target: number) => {
+    const { past, future } = history;
+    if (target < past.length) {
+      const undone = past.slice(target);
+      updateLayers(layers => undone.reduceRight((acc, c) => c.revert(acc), layers));
+      setHistory({ past: past.slice(0, target), future: [...undone, ...future] });
+    } else if (target > past.length) {
+      const redone = future.slice(0, target - past.length);
+      updateLayers(layers => redone.reduce((acc, c) => c.apply(acc), layers));
+      setHistory({ past: [...past, ...redone], future: future.slice(redone.length) });
     }
   };
 
+  const handleUndo = () => handleJumpHistory(history.past.length - 1);
+  const handleRedo = () => handleJumpHistory(history.past.length + 1);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && history.past.length > 0) {
+        e.preventDefault();
+        handleUndo();
+      } else if (((key === 'z' && e.shiftKey) || key === 'y') && history.future.length > 0) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleToggleVisibility = (id: string) => {
+    const layer = state.result?.layers.find(l => l.id === id);
+    if (!layer) return;
+    executeCommand(toggleVisibilityCommand(layer));
+  };
+
+  const handleUpdateLayerBox = (id: string, box: BoundingBox) => {
+    const layer = state.result?.layers.find(l => l.id === id);
+    if (!layer) return;
+    // Geometry changed, so the old mask, fill, text and face no longer fit; the effects redo them
+    executeCommand(updateLayerCommand(
+      `Edit box of "${layer.label}"`,
+      id,
+      { box: layer.box, maskUrl: layer.maskUrl, fillUrl: layer.fillUrl, text: layer.text, face: layer.face },
+      { box, maskUrl: undefined, fillUrl: undefined, text: undefined, face: undefined }
+    ));
+  };
+
+  const handleAddLayer = (label: string, type: ElementType, box: BoundingBox) => {
+    if (!state.result) return;
+    const layer: LayerData = {
+      id: `layer-user-${Date.now()}`,
+      label,
+      type,
+      confidence: 1,
+      box,
+      zIndex: Math.max(0, ...state.result.layers.map(l => l.zIndex)) + 1,
+      dominantColor: originalImage ? averageColor(originalImage, box) : '#808080',
+      visible: true
+    };
+    executeCommand(addLayersCommand(`Add "${label}"`, [layer]));
+  };
+
+  const handleRenameLayer = (id: string, label: string) => {
+    const layer = state.result?.layers.find(l => l.id === id);
+    if (!layer) return;
+    executeCommand(updateLayerCommand(`Rename "${layer.label}" to "${label}"`, id, { label: layer.label }, { label }));
+  };
+
+  const handleDeleteLayers = (ids: string[]) => {
+    const removed = state.result?.layers.filter(l => ids.includes(l.id)) ?? [];
+    if (removed.length === 0) return;
+    executeCommand(removeLayersCommand(
+      removed.length === 1 ? `Delete "${removed[0].label}"` : `Delete ${removed.length} layers`,
+      removed
+    ));
+    if (selectedLayerId && ids.includes(selectedLayerId)) setSelectedLayerId(null);
+  };
+
+  const handleMergeLayers = async (ids: string[]) => {
+    const sources = state.result?.layers.filter(l => ids.includes(l.id)) ?? [];
+    if (sources.length < 2 || !originalImage) return;
+    const token = editorToken.current;
+    const merged = await mergeLayers(originalImage, sources);
+    if (token !== editorToken.current) return;
+    executeCommand(compositeCommand(`Merge ${sources.length} layers into "${merged.label}"`, [
+      removeLayersCommand('', sources),
+      addLayersCommand('', [merged]),
+    ]));
+    setSelectedLayerId(merged.id);
+  };
+
+  // Sets the folder of each layer, as individual field updates so undo restores the old folders
+  const regroupCommands = (layers: LayerData[], group: string | undefined) =>
+    layers
+      .filter(l => l.group !== group)
+      .map(l => updateLayerCommand('', l.id, { group: l.group }, { group }));
+
+  const handleGroupLayers = (ids: string[]) => {
     if (!state.result) return;
-    const newLayers = state.result.layers.map(l => 
-      l.id === id ? { ...l, visible: !l.visible } : l
-    );
+    const members = state.result.layers.filter(l => ids.includes(l.id));
+    const existing = new Set(state.result.layers.map(l => l.group));
+    let n = 1;
+    while (existing.has(`Group ${n}`)) n++;
+    const name = `Group ${n}`;
+    executeCommand(compositeCommand(`Group ${members.length} layers as "${name}"`, [
+      reorderCommand('', zIndexMap(state.result.layers), gatherLayers(state.result.layers, ids)),
+      ...regroupCommands(members, name),
+    ]));
+  };
+
+  const handleRenameGroup = (from: string, to: string) => {
+    const members = state.result?.layers.filter(l => l.group === from) ?? [];
+    executeCommand(compositeCommand(`Rename group "${from}" to "${to}"`, regroupCommands(members, to)));
+  };
+
+  const handleUngroup = (group: string) => {
+    const members = state.result?.layers.filter(l => l.group === group) ?? [];
+    executeCommand(compositeCommand(`Ungroup "${group}"`, regroupCommands(members, undefined)));
+  };
+
+  const handleMoveLayers = (ids: string[], targetId: string, group: string | undefined) => {
+    if (!state.result) return;
+    const moved = state.result.layers.filter(l => ids.includes(l.id));
+    executeCommand(compositeCommand(
+      moved.length === 1 ? `Move "${moved[0].label}"` : `Move ${moved.length} layers`,
+      [
+        reorderCommand('', zIndexMap(state.result.layers), moveLayersAbove(state.result.layers, ids, targetId)),
+        ...regroupCommands(moved, group),
+      ]
+    ));
+  };
+
+  // Translations are document data rather than layer edits, so they bypass the undo history
+  const handleLocalizationsChange = (localizations: Record<string, Record<string, string>>) => {
     setState(prev => ({
       ...prev,
-      result: prev.result ? { ...prev.result, layers: newLayers } : null
+      result: prev.result ? { ...prev.result, localizations } : null
     }));
   };
 
-  const handleExportJSON = () => {
-    if (!state.result) return;
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(state.result, null, 2));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", "thumbnail_data.json");
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+  // The remix is saved with the result it was built from, outside the layer undo history
+  const handleCompositionChange = (composition: CompositionDocument) => {
+    setState(prev => ({
+      ...prev,
+      result: prev.result ? { ...prev.result, composition } : null
+    }));
+  };
+
+  const handleOpenRecompose = () => {
+    if (!state.result || !originalImage) return;
+    if (!state.result.composition) handleCompositionChange(createComposition(originalImage, state.result.layers));
+    setShowRecompose(true);
+  };
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setShowSettings(false);
+  };
+
+  const handleCleanPlate = async () => {
+    if (!state.result || !originalImage) return;
+    const background = findBackgroundLayer(state.result.layers);
+    if (!background) {
+      alert('No background layer to clean. Add a BACKGROUND layer first.');
+      return;
+    }
+    const token = editorToken.current;
+    setGeneratingPlate(true);
+    try {
+      // Let the busy state paint before the fill blocks the main thread
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const plate = await generateCleanPlate(originalImage, state.result.layers);
+      if (token !== editorToken.current || !plate) return;
+      executeCommand(updateLayerCommand(
+        `Generate clean plate for "${background.label}"`,
+        background.id,
+        { fillUrl: background.fillUrl },
+        { fillUrl: plate }
+      ));
+      setSelectedLayerId(background.id);
+    } catch (err) {
+      console.error("Clean Plate Error:", err);
+      alert('Failed to generate clean plate');
+    } finally {
+      setGeneratingPlate(false);
+    }
+  };
+
+  const handleExportProject = async () => {
+    if (!state.result || !state.imageSrc || !originalImage) return;
+    try {
+      // The library keeps the unedited analysis; without a stored project there are no edits to record
+      const stored = projectId ? await getProject(projectId) : undefined;
+      const name = stored?.name.replace(/\.[^.]+$/, '') || 'thumbnail';
+      const file = buildProjectFile({
+        name,
+        createdAt: stored?.createdAt,
+        image: { dataUrl: state.imageSrc, width: originalImage.naturalWidth, height: originalImage.naturalHeight },
+        originalResult: stored?.originalResult ?? state.result,
+        result: state.result
+      });
+      downloadBlob(new Blob([file], { type: 'application/json' }), `${toFileName(name)}${PROJECT_FILE_EXTENSION}`);
+    } catch (err) {
+      console.error("Project Export Error:", err);
+      alert("Failed to export project file");
+    }
+  };
+
+  const handleExportPSD = async () => {
+    if (!state.result || !originalImage) return;
+    try {
+      const psd = await buildPsd(originalImage, state.result.layers);
+      downloadBlob(psd, "thumbnail_layers.psd");
+    } catch (err) {
+      console.error("PSD Export Error:", err);
+      alert("Failed to export PSD");
+    }
+  };
+
+  const handleExportSVG = async () => {
+    if (!state.result || !state.imageSrc || !originalImage) return;
+    try {
+      const svg = await buildSvg(originalImage, state.imageSrc, state.result.layers);
+      downloadBlob(svg, "thumbnail_layers.svg");
+    } catch (err) {
+      console.error("SVG Export Error:", err);
+      alert("Failed to export SVG");
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    if (!state.result || !state.imageSrc || !originalImage) return;
+    try {
+      const zip = await buildZipBundle(originalImage, state.imageSrc, state.result);
+      downloadBlob(zip, "thumbnail_layers.zip");
+    } catch (err) {
+      console.error("ZIP Export Error:", err);
+      alert("Failed to build ZIP archive");
+    }
   };
 
   return (
@@ -83,27 +648,147 @@ const App: React.FC = () => {
           <span className="bg-blue-900/30 text-blue-400 text-xs px-2 py-0.5 rounded border border-blue-800/50">PRO BETA</span>
         </div>
         <div>
+           {batchFiles && state.status !== 'BATCH' && (
+             <button 
+               onClick={() => setState({ status: 'BATCH', imageSrc: null, result: null, error: null })}
+               className="text-sm text-gray-400 hover:text-white mr-4"
+             >
+               ← Back to Batch
+             </button>
+           )}
            {state.status === 'SUCCESS' && (
              <button 
-               onClick={() => setState({ status: 'IDLE', imageSrc: null, result: null, error: null })}
+               onClick={handleCompareCurrent}
+               className="text-sm text-gray-400 hover:text-white mr-4"
+             >
+               Compare
+             </button>
+           )}
+           {state.status === 'SUCCESS' && originalImage && (
+             <button 
+               onClick={() => setShowLocalize(true)}
+               className="text-sm text-gray-400 hover:text-white mr-4"
+             >
+               Localize
+             </button>
+           )}
+           {state.status === 'SUCCESS' && originalImage && (
+             <button 
+               onClick={handleOpenRecompose}
+               className="text-sm text-gray-400 hover:text-white mr-4"
+             >
+               Recompose
+             </button>
+           )}
+           {(state.status === 'SUCCESS' || state.status === 'BATCH') && (
+             <button 
+               onClick={handleNewProject}
                className="text-sm text-gray-400 hover:text-white mr-4"
              >
                New Project
              </button>
            )}
-           <a href="https://ai.google.dev" target="_blank" rel="noreferrer" className="text-xs text-gray-600 hover:text-gray-400">Powered by Gemini</a>
+           <button
+             onClick={() => setShowSettings(true)}
+             className="text-xs text-gray-600 hover:text-gray-400"
+             title="Analysis provider settings"
+           >
+             ⚙ Powered by {PROVIDERS[providerSettings.providerId].name}
+           </button>
         </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          settings={providerSettings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 flex overflow-hidden relative">
+
+        {/* Compare Mode (overlays whatever view opened it) */}
+        {compareVariants && (
+          <div className="absolute inset-0 z-40">
+            <CompareView
+              initialVariants={compareVariants}
+              settings={providerSettings}
+              onClose={() => setCompareVariants(null)}
+            />
+          </div>
+        )}
+
+        {showLocalize && state.status === 'SUCCESS' && state.result && originalImage && (
+          <div className="absolute inset-0 z-40">
+            <LocalizeView
+              originalImage={originalImage}
+              layers={state.result.layers}
+              localizations={state.result.localizations ?? {}}
+              onChange={handleLocalizationsChange}
+              onClose={() => setShowLocalize(false)}
+            />
+          </div>
+        )}
+
+        {showRecompose && state.status === 'SUCCESS' && state.result?.composition && originalImage && (
+          <div className="absolute inset-0 z-40">
+            <RecomposeView
+              originalImage={originalImage}
+              layers={state.result.layers}
+              composition={state.result.composition}
+              pixelStats={pixelStats}
+              baselineAnalysis={baselineAnalysis}
+              onChange={handleCompositionChange}
+              onClose={() => setShowRecompose(false)}
+            />
+          </div>
+        )}
         
-        {/* Loading Overlay */}
+        {/* Loading Overlay: layers appear on the canvas as they stream in */}
         {state.status === 'ANALYZING' && (
-          <div className="absolute inset-0 bg-gray-900/90 z-50 flex flex-col items-center justify-center">
-            <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-            <h2 className="text-xl font-medium text-white animate-pulse">Deconstructing Thumbnail...</h2>
-            <p className="text-gray-500 mt-2">Detecting layers, analyzing composition, extracting colors</p>
+          <div className="absolute inset-0 bg-gray-900/95 z-50 flex">
+            <div className="flex-1 p-6 flex items-center justify-center min-w-0">
+              {state.imageSrc && (
+                <LayerCanvas
+                  imageSrc={state.imageSrc}
+                  layers={progress?.layers ?? []}
+                  selectedLayerId={null}
+                  onSelectLayer={() => {}}
+                  onUpdateLayerBox={() => {}}
+                  onAddLayer={() => {}}
+                  readOnly
+                />
+              )}
+            </div>
+            <div className="w-80 border-l border-gray-800 bg-gray-900 p-6 flex flex-col justify-center">
+              <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
+              <h2 className="text-xl font-medium text-white mb-6">Deconstructing Thumbnail...</h2>
+              <ol className="space-y-3 mb-8">
+                {ANALYSIS_STAGES.map(({ stage, label }, i) => {
+                  const current = ANALYSIS_STAGES.findIndex(s => s.stage === progress?.stage);
+                  const status = i < current ? 'done' : i === current ? 'active' : 'pending';
+                  return (
+                    <li key={stage} className={`flex items-center gap-3 text-sm ${status === 'pending' ? 'text-gray-600' : status === 'active' ? 'text-white' : 'text-gray-400'}`}>
+                      <span className={`w-5 text-center ${status === 'active' ? 'animate-pulse text-blue-400' : ''}`}>
+                        {status === 'done' ? '✓' : status === 'active' ? '●' : '○'}
+                      </span>
+                      {label}
+                      {stage === 'DETECTING' && progress && progress.layers.length > 0 && (
+                        <span className="text-xs text-gray-500">({progress.layers.length})</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              <button
+                onClick={handleNewProject}
+                className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm border border-gray-700"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
         )}
 
@@ -124,8 +809,8 @@ const App: React.FC = () => {
 
         {/* IDLE: Upload Screen */}
         {state.status === 'IDLE' && (
-          <div className="w-full h-full flex items-center justify-center p-6 bg-gray-950">
-            <div className="max-w-2xl w-full">
+          <div className="w-full h-full flex items-center justify-center p-6 bg-gray-950 overflow-y-auto">
+            <div className="max-w-2xl w-full my-auto">
               <div className="text-center mb-10">
                 <h2 className="text-4xl font-extrabold text-white mb-4">
                   Deconstruct Your Thumbnails <span className="text-brand-500">Instantly</span>.
@@ -134,7 +819,7 @@ const App: React.FC = () => {
                   Upload any YouTube or gaming thumbnail. AI will separate layers, analyze visual weight, and suggest improvements.
                 </p>
               </div>
-              <Dropzone onImageSelected={handleImageSelected} />
+              <Dropzone onImageSelected={handleImageSelected} onFilesSelected={handleBatchSelected} onProjectSelected={handleProjectFileSelected} />
               
               <div className="mt-12 grid grid-cols-3 gap-6 text-center text-sm text-gray-500">
                 <div>
@@ -150,10 +835,24 @@ const App: React.FC = () => {
                   <p>Local Privacy Focus</p>
                 </div>
               </div>
+
+              <ProjectLibrary onOpen={handleOpenProject} onCompare={handleCompareProjects} />
             </div>
           </div>
         )}
 
+        {/* BATCH: Queue + Gallery (kept mounted while an item is open so the queue keeps running) */}
+        {batchFiles && (
+          <div className={state.status === 'BATCH' ? 'w-full h-full' : 'hidden'}>
+            <BatchView
+              files={batchFiles}
+              settings={providerSettings}
+              onOpen={handleOpenBatchItem}
+              onClose={handleNewProject}
+            />
+          </div>
+        )}
+
         {/* SUCCESS: Editor View */}
         {state.status === 'SUCCESS' && state.result && state.imageSrc && (
           <>
@@ -165,6 +864,12 @@ const App: React.FC = () => {
                    layers={state.result.layers} 
                    selectedLayerId={selectedLayerId}
                    onSelectLayer={setSelectedLayerId}
+                   onUpdateLayerBox={handleUpdateLayerBox}
+                   onAddLayer={handleAddLayer}
+                   requestedDetails={autoDetails ? undefined : detailRequests}
+                   onRequestDetails={id => handleRequestDetails([id])}
+                   analysis={localAnalysis}
+                   pixelStats={pixelStats}
                  />
               </div>
               
@@ -176,11 +881,50 @@ const App: React.FC = () => {
                    <span>Resolution: {originalImage ? `${originalImage.naturalWidth}x${originalImage.naturalHeight}` : '...'}</span>
                 </div>
                 <div className="flex gap-3">
+                   {!autoDetails && (
+                     <button
+                      onClick={() => handleRequestDetails(state.result!.layers.filter(l => l.type === ElementType.TEXT || l.type === ElementType.PERSON).map(l => l.id))}
+                      title="Read the text of every text layer and the face of every person (one provider request each)"
+                      className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm transition-colors border border-gray-700"
+                     >
+                       Read Text &amp; Faces
+                     </button>
+                   )}
                    <button 
-                    onClick={handleExportJSON}
+                    onClick={handleCleanPlate}
+                    disabled={!originalImage || generatingPlate}
+                    title="Remove every foreground layer and fill the holes in the background"
+                    className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm transition-colors border border-gray-700 disabled:opacity-50"
+                   >
+                     {generatingPlate ? 'Filling...' : 'Clean Plate'}
+                   </button>
+                   <button 
+                    onClick={handleExportProject}
+                    disabled={!originalImage}
                     className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm transition-colors border border-gray-700"
                    >
-                     Export JSON
+                     Export Project
+                   </button>
+                   <button 
+                    onClick={handleExportPSD}
+                    disabled={!originalImage}
+                    className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm transition-colors border border-gray-700 disabled:opacity-50"
+                   >
+                     Export PSD
+                   </button>
+                   <button 
+                    onClick={handleExportSVG}
+                    disabled={!originalImage}
+                    className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm transition-colors border border-gray-700 disabled:opacity-50"
+                   >
+                     Export SVG
+                   </button>
+                   <button 
+                    onClick={handleDownloadAll}
+                    disabled={!originalImage}
+                    className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm transition-colors border border-gray-700 disabled:opacity-50"
+                   >
+                     Download All
                    </button>
                    <button 
                     onClick={() => window.print()}
@@ -218,12 +962,33 @@ const App: React.FC = () => {
                     selectedLayerId={selectedLayerId}
                     onSelectLayer={setSelectedLayerId}
                     onToggleVisibility={handleToggleVisibility}
+                    onRenameLayer={handleRenameLayer}
+                    onDeleteLayers={handleDeleteLayers}
+                    onMergeLayers={handleMergeLayers}
+                    onGroupLayers={handleGroupLayers}
+                    onRenameGroup={handleRenameGroup}
+                    onUngroup={handleUngroup}
+                    onMoveLayers={handleMoveLayers}
                     originalImage={originalImage}
                   />
                 ) : (
-                  <AnalysisPanel analysis={state.result.analysis} />
+                  <AnalysisPanel
+                    analysis={state.result.analysis}
+                    localAnalysis={localAnalysis}
+                    baselineAnalysis={baselineAnalysis}
+                    originalImage={originalImage}
+                    layers={state.result.layers}
+                    warnings={state.result.warnings}
+                  />
                 )}
               </div>
+
+              <HistoryPanel
+                history={history}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onJump={handleJumpHistory}
+              />
             </div>
           </>
         )}
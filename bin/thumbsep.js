@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Runs the bundled CLI; build it first with `npm run build:cli`
+import "../dist/cli/thumbsep.js";
@@ -0,0 +1,14 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { setCanvasBackend } from "../utils/canvas";
+
+/**
+ * Points the shared pixel code at a native canvas so it runs without a DOM.
+ * The native objects implement the parts of the 2D canvas API the utils use;
+ * the casts only bridge the type declarations.
+ */
+export const installNodeCanvas = () => {
+  setCanvasBackend({
+    createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+    loadImage: async src => (await loadImage(src)) as unknown as HTMLImageElement,
+  });
+};
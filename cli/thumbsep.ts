@@ -0,0 +1,236 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { ElementType, ProcessingResult } from "../types";
+import { ProviderId, ProviderSettings } from "../services/analysisProvider";
+import { PROVIDERS, analyzeFace, analyzeImageSource, defaultSettings, hasCredentials, recognizeText } from "../services/analysisService";
+import { AUDIT_METRICS, AuditReport, AuditThresholds, auditResult, parseThresholds } from "../utils/audit";
+import { detectImageType, readJpegOrientation } from "../utils/imageInput";
+import { createCanvas } from "../utils/canvas";
+import { loadImage, toFileName } from "../utils/imageProcessing";
+import { generateLayerMask } from "../utils/segmentation";
+import { buildPsd } from "../utils/psdExport";
+import { buildZipBundle } from "../utils/zipExport";
+import { PROJECT_FILE_EXTENSION, buildProjectFile } from "../utils/projectFile";
+import { installNodeCanvas } from "./nodeCanvas";
+
+const FORMATS = ["json", "tsep", "psd", "zip"] as const;
+type OutputFormat = typeof FORMATS[number];
+
+// Exit codes: thresholds missed vs. the audit itself failing
+const EXIT_BELOW_THRESHOLD = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: thumbsep analyze <files...> [options]
+
+Analyzes thumbnails headlessly and exits with ${EXIT_BELOW_THRESHOLD} when a score is below its threshold.
+
+Options:
+  -o, --out <dir>         Write outputs to this directory
+  -f, --format <format>   ${FORMATS.join(" | ")} (repeatable, default json; needs --out)
+      --min <metric=n>    Minimum score, e.g. overall=60 (repeatable)
+                          Metrics: ${AUDIT_METRICS.join(", ")}
+      --provider <id>     ${Object.keys(PROVIDERS).join(" | ")} (default gemini)
+      --model <name>      Model id, defaults to the provider's
+      --endpoint <url>    Base URL for openai / ollama
+      --api-key <key>     Defaults to THUMBSEP_API_KEY, then GEMINI_API_KEY / OPENAI_API_KEY
+      --report <file>     Write the audit as JSON
+      --require-provider  Exit ${EXIT_ERROR} instead of falling back to offline heuristics
+  -h, --help              Show this help
+
+Without credentials the offline pixel heuristics are used instead of a model,
+with a warning on stderr. Their scores differ from a model's, so CI gates
+should pass --require-provider.`;
+
+const API_KEY_VARIABLES: Partial<Record<ProviderId, string[]>> = {
+  gemini: ["GEMINI_API_KEY", "API_KEY"],
+  openai: ["OPENAI_API_KEY"],
+};
+
+const buildSettings = (values: { provider?: string; model?: string; endpoint?: string; "api-key"?: string }): ProviderSettings => {
+  const providerId = (values.provider ?? "gemini") as ProviderId;
+  if (!(providerId in PROVIDERS)) {
+    throw new Error(`Unknown provider "${providerId}". Use one of: ${Object.keys(PROVIDERS).join(", ")}`);
+  }
+  const envKey = (API_KEY_VARIABLES[providerId] ?? []).map(name => process.env[name]).find(Boolean);
+  return {
+    ...defaultSettings(providerId),
+    ...(values.model ? { model: values.model } : {}),
+    ...(values.endpoint ? { endpoint: values.endpoint } : {}),
+    apiKey: values["api-key"] ?? process.env.THUMBSEP_API_KEY ?? envKey ?? "",
+  };
+};
+
+/**
+ * Like the editor's upload path, JPEGs with EXIF get their orientation baked
+ * into the pixels and the metadata dropped, so providers that ignore EXIF see
+ * the same frame the boxes refer to. The native decoder applies the rotation.
+ */
+const readImageAsDataUrl = async (path: string): Promise<string> => {
+  const bytes = await readFile(path);
+  const type = detectImageType(new Uint8Array(bytes));
+  if (!type) throw new Error("Unsupported image format");
+  const dataUrl = `data:${type};base64,${bytes.toString("base64")}`;
+  if (type !== "image/jpeg" || readJpegOrientation(new Uint8Array(bytes)) === null) return dataUrl;
+
+  const image = await loadImage(dataUrl);
+  const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+  canvas.getContext("2d")?.drawImage(image, 0, 0);
+  return canvas.toDataURL("image/jpeg", 0.95);
+};
+
+/**
+ * What the editor fills in after the analysis: masks, recognized text and
+ * faces. The face pass matters for the Eye Contact score.
+ */
+const enrichResult = async (image: HTMLImageElement, result: ProcessingResult, settings: ProviderSettings): Promise<ProcessingResult> => {
+  const layers = [];
+  for (const layer of result.layers) {
+    const maskUrl = layer.maskUrl ?? generateLayerMask(image, layer);
+    const text = layer.type === ElementType.TEXT && !layer.text ? await recognizeText(image, layer, settings) : layer.text;
+    const face = layer.type === ElementType.PERSON && layer.face === undefined ? await analyzeFace(image, layer, settings) : layer.face;
+    layers.push({
+      ...layer,
+      ...(maskUrl ? { maskUrl } : {}),
+      ...(text ? { text } : {}),
+      ...(face !== undefined ? { face } : {}),
+    });
+  }
+  return { ...result, layers };
+};
+
+const blobToBuffer = async (blob: Blob) => Buffer.from(await blob.arrayBuffer());
+
+const writeOutputs = async (
+  outDir: string,
+  name: string,
+  formats: OutputFormat[],
+  image: HTMLImageElement,
+  dataUrl: string,
+  result: ProcessingResult
+) => {
+  for (const format of formats) {
+    if (format === "json") {
+      await writeFile(join(outDir, `${name}.json`), JSON.stringify(result, null, 2));
+    } else if (format === "tsep") {
+      const file = buildProjectFile({
+        name,
+        image: { dataUrl, width: image.naturalWidth, height: image.naturalHeight },
+        originalResult: result,
+        result,
+      });
+      await writeFile(join(outDir, `${name}${PROJECT_FILE_EXTENSION}`), file);
+    } else if (format === "psd") {
+      await writeFile(join(outDir, `${name}.psd`), await blobToBuffer(await buildPsd(image, result.layers)));
+    } else {
+      await writeFile(join(outDir, `${name}.zip`), await blobToBuffer(await buildZipBundle(image, dataUrl, result)));
+    }
+  }
+};
+
+// Which provider and model produced the scores, so offline fallbacks are visible in logs
+type FileReport = AuditReport & { provider?: string; model?: string; error?: string };
+
+const formatReport = (report: FileReport) => {
+  const scores = AUDIT_METRICS.map(metric => `${metric} ${report.scores[metric]}`).join("  ");
+  const status = report.passed ? "PASS" : `FAIL (${report.failures.join(", ")})`;
+  return `${status}  ${report.file}  [${report.provider}/${report.model}]\n      ${scores}`;
+};
+
+const parseCli = (argv: string[]) =>
+  parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      format: { type: "string", short: "f", multiple: true },
+      min: { type: "string", multiple: true },
+      provider: { type: "string" },
+      model: { type: "string" },
+      endpoint: { type: "string" },
+      "api-key": { type: "string" },
+      report: { type: "string" },
+      "require-provider": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+type CliValues = ReturnType<typeof parseCli>["values"];
+
+const analyzeCommand = async (files: string[], values: CliValues): Promise<number> => {
+  const formats = values.format ?? ["json"];
+  const unknown = formats.find(format => !FORMATS.includes(format as OutputFormat));
+  if (unknown) throw new Error(`Unknown format "${unknown}". Use one of: ${FORMATS.join(", ")}`);
+  const thresholds: AuditThresholds = parseThresholds(values.min ?? []);
+  const settings = buildSettings(values);
+  if (!hasCredentials(settings)) {
+    const message = `no API key for ${settings.providerId}`;
+    if (values["require-provider"]) throw new Error(`${message}; pass --api-key or set THUMBSEP_API_KEY`);
+    console.error(`thumbsep: warning: ${message}, scoring with offline pixel heuristics instead`);
+  }
+
+  const outDir = values.out;
+  if (outDir) await mkdir(outDir, { recursive: true });
+
+  installNodeCanvas();
+
+  const reports: FileReport[] = [];
+  const usedNames = new Set<string>();
+  for (const path of files) {
+    try {
+      const dataUrl = await readImageAsDataUrl(path);
+      const image = await loadImage(dataUrl);
+      const result = await enrichResult(image, await analyzeImageSource(dataUrl, settings), settings);
+      const report: FileReport = {
+        ...auditResult(path, result, thresholds),
+        provider: result.provenance?.providerId,
+        model: result.provenance?.model,
+      };
+      reports.push(report);
+      console.log(formatReport(report));
+
+      if (outDir) {
+        // Same-named files from different folders must not overwrite each other
+        const base = toFileName(basename(path, extname(path)));
+        let name = base;
+        for (let i = 2; usedNames.has(name); i++) name = `${base}_${i}`;
+        usedNames.add(name);
+        await writeOutputs(outDir, name, formats as OutputFormat[], image, dataUrl, result);
+      }
+    } catch (err: any) {
+      console.error(`ERROR ${path}: ${err.message ?? err}`);
+      reports.push({ file: path, scores: {}, failures: [], passed: false, error: err.message ?? String(err) });
+    }
+  }
+
+  if (values.report) {
+    await writeFile(values.report, JSON.stringify({ generatedAt: new Date().toISOString(), thresholds, files: reports }, null, 2));
+  }
+
+  const errors = reports.filter(r => r.error).length;
+  const failed = reports.filter(r => !r.passed && !r.error).length;
+  console.log(`\n${reports.length - failed - errors} passed, ${failed} below threshold, ${errors} failed`);
+  if (errors > 0) return EXIT_ERROR;
+  return failed > 0 ? EXIT_BELOW_THRESHOLD : 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseCli(argv);
+
+  const [command, ...files] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_ERROR;
+  }
+  if (command !== "analyze") throw new Error(`Unknown command "${command}"`);
+  if (files.length === 0) throw new Error("No input files");
+  if (values.format && !values.out) throw new Error("--format needs --out");
+  return analyzeCommand(files, values);
+};
+
+main(process.argv.slice(2))
+  .then(code => { process.exitCode = code; })
+  .catch(err => {
+    console.error(`thumbsep: ${err.message ?? err}`);
+    process.exitCode = EXIT_ERROR;
+  });
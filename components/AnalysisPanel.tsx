@@ -1,25 +1,70 @@
-import React from 'react';
-import { CompositionAnalysis } from '../types';
+import React, { useMemo, useState } from 'react';
+import { CompositionAnalysis, LayerData } from '../types';
+import { RADAR_METRICS } from '../utils/comparison';
+import { PLATFORM_PRESETS, PlatformCheckSettings, checkPlatforms, loadPlatformSettings, savePlatformSettings } from '../utils/platformCheck';
+import { ScoreTile } from './ScoreTile';
+import { PlatformPreview } from './PlatformPreview';
+import { ColorTools } from './ColorTools';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Cell, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
 
 interface AnalysisPanelProps {
   analysis: CompositionAnalysis;
+  localAnalysis?: CompositionAnalysis | null; // Pixel-based heuristics for the current layers, recomputed on every edit
+  baselineAnalysis?: CompositionAnalysis | null; // The same heuristics for the layers as first analysed
+  warnings?: string[];
+  originalImage?: HTMLImageElement | null; // Enables the platform safe-zone and legibility checks
+  layers?: LayerData[];
 }
 
-export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
-  const radarData = [
-    { subject: 'Rule of 3rds', A: analysis.ruleOfThirdsScore, fullMark: 100 },
-    { subject: 'Balance', A: analysis.visualBalanceScore, fullMark: 100 },
-    { subject: 'Contrast', A: analysis.contrastLevel === 'High' ? 90 : analysis.contrastLevel === 'Medium' ? 60 : 30, fullMark: 100 },
-    { subject: 'Eye Contact', A: analysis.eyeContact ? 100 : 20, fullMark: 100 },
-  ];
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, localAnalysis, baselineAnalysis, warnings, originalImage, layers }) => {
+  const isLocalOnly = analysis.source === 'local';
+  const live = localAnalysis ?? analysis;
+  const [platformSettings, setPlatformSettings] = useState<PlatformCheckSettings>(loadPlatformSettings);
+
+  const findings = useMemo(
+    () => originalImage && layers ? checkPlatforms(originalImage, layers, platformSettings) : [],
+    [originalImage, layers, platformSettings]
+  );
+
+  const handlePlatformSettings = (settings: PlatformCheckSettings) => {
+    savePlatformSettings(settings);
+    setPlatformSettings(settings);
+  };
+
+  // The heuristics can't judge gaze, so the local series reuse the AI value there.
+  // Per-person faces take over when present: every face as analysed, or only the visible ones.
+  const allLayers = useMemo(() => layers?.map(l => l.visible ? l : { ...l, visible: true }), [layers]);
+  const radarData = RADAR_METRICS.map(metric => ({
+    subject: metric.label,
+    A: metric.score(analysis, allLayers),
+    Original: baselineAnalysis && metric.score({ ...baselineAnalysis, eyeContact: analysis.eyeContact }, allLayers),
+    Current: metric.score({ ...live, eyeContact: analysis.eyeContact }, layers),
+    fullMark: 100
+  }));
 
   return (
     <div className="h-full overflow-y-auto p-4 custom-scrollbar space-y-8 bg-gray-900">
-      
+
+      {/* Validation warnings */}
+      {warnings && warnings.length > 0 && (
+        <details className="bg-amber-900/20 rounded-xl px-4 py-3 border border-amber-800/60">
+          <summary className="text-sm text-amber-300 cursor-pointer">
+            ⚠ {warnings.length} {warnings.length === 1 ? 'issue' : 'issues'} fixed in the AI response
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {warnings.map((w, i) => (
+              <li key={i} className="text-xs text-amber-200/80">{w}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       {/* Suggestions Box */}
       <section className="bg-gray-800/50 rounded-xl p-5 border border-gray-700">
-        <h3 className="text-lg font-semibold text-white mb-3">✨ AI Suggestions</h3>
+        <h3 className="text-lg font-semibold text-white mb-3">{isLocalOnly ? '📐 Heuristic Suggestions' : '✨ AI Suggestions'}</h3>
+        {isLocalOnly && (
+          <p className="text-xs text-gray-500 mb-3">Offline analysis computed from pixels. Configure an API key for AI layer detection.</p>
+        )}
         <ul className="space-y-2">
           {analysis.suggestions.map((s, i) => (
             <li key={i} className="flex gap-3 text-sm text-gray-300">
@@ -28,20 +73,53 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
             </li>
           ))}
         </ul>
+        {findings.length > 0 && (
+          <>
+            <h4 className="text-xs text-gray-500 font-bold tracking-wider mt-4 mb-2">PLATFORM CHECKS</h4>
+            <ul className="space-y-2">
+              {findings.map((f, i) => (
+                <li key={i} className="flex gap-3 text-sm text-gray-300">
+                  <span className={`mt-0.5 ${f.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                    {f.severity === 'error' ? '✕' : '⚠'}
+                  </span>
+                  <span>
+                    {f.message}
+                    {f.platform && <span className="text-[10px] text-gray-500 ml-1.5">{PLATFORM_PRESETS[f.platform].name}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
       </section>
 
+      {originalImage && (
+        <PlatformPreview originalImage={originalImage} settings={platformSettings} onChange={handlePlatformSettings} />
+      )}
+
       {/* Scores */}
       <section>
-        <h3 className="text-sm font-uppercase text-gray-500 font-bold tracking-wider mb-4">COMPOSITION METRICS</h3>
+        <h3 className="text-sm font-uppercase text-gray-500 font-bold tracking-wider mb-1">COMPOSITION METRICS</h3>
+        <p className="text-[11px] text-gray-600 mb-4">Live: recomputed from the visible layers as you edit, compared with the original.</p>
         <div className="grid grid-cols-2 gap-4">
-            <div className="bg-gray-850 p-4 rounded-lg border border-gray-800 text-center">
-                <div className="text-3xl font-bold text-white mb-1">{analysis.ruleOfThirdsScore}</div>
-                <div className="text-xs text-gray-500">Rule of Thirds</div>
-            </div>
-            <div className="bg-gray-850 p-4 rounded-lg border border-gray-800 text-center">
-                <div className="text-3xl font-bold text-white mb-1">{analysis.visualBalanceScore}</div>
-                <div className="text-xs text-gray-500">Visual Balance</div>
-            </div>
+            <ScoreTile
+              label="Rule of Thirds"
+              value={live.ruleOfThirdsScore}
+              baseline={baselineAnalysis?.ruleOfThirdsScore}
+              note={!isLocalOnly && `AI snapshot: ${analysis.ruleOfThirdsScore}`}
+            />
+            <ScoreTile
+              label="Visual Balance"
+              value={live.visualBalanceScore}
+              baseline={baselineAnalysis?.visualBalanceScore}
+              note={!isLocalOnly && `AI snapshot: ${analysis.visualBalanceScore}`}
+            />
+        </div>
+        <div className="text-[11px] text-gray-500 text-center mt-2">
+          Weight center {live.visualWeightCenter.x}, {live.visualWeightCenter.y}
+          {baselineAnalysis && (baselineAnalysis.visualWeightCenter.x !== live.visualWeightCenter.x || baselineAnalysis.visualWeightCenter.y !== live.visualWeightCenter.y) && (
+            <span className="text-gray-600"> · was {baselineAnalysis.visualWeightCenter.x}, {baselineAnalysis.visualWeightCenter.y}</span>
+          )}
         </div>
       </section>
 
@@ -53,13 +131,34 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
             <PolarGrid stroke="#374151" />
             <PolarAngleAxis dataKey="subject" tick={{ fill: '#9ca3af', fontSize: 10 }} />
             <PolarRadiusAxis angle={30} domain={[0, 100]} stroke="none" />
+            {!isLocalOnly && (
+              <Radar
+                name="AI snapshot"
+                dataKey="A"
+                stroke="#a78bfa"
+                strokeWidth={1}
+                fill="none"
+              />
+            )}
+            {baselineAnalysis && (
+              <Radar
+                name="Original"
+                dataKey="Original"
+                stroke="#9ca3af"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                fill="none"
+                isAnimationActive={false}
+              />
+            )}
             <Radar
-              name="Score"
-              dataKey="A"
+              name="Current"
+              dataKey="Current"
               stroke="#3b82f6"
               strokeWidth={3}
               fill="#3b82f6"
               fillOpacity={0.3}
+              animationDuration={400}
             />
           </RadarChart>
         </ResponsiveContainer>
@@ -82,7 +181,22 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
             </div>
           ))}
         </div>
-        <div className="text-xs text-center mt-2 text-gray-500">Click to copy Hex</div>
+        {localAnalysis && !isLocalOnly && (
+          <div className="flex h-6 rounded-lg overflow-hidden mt-2" title="Local k-means palette">
+            {localAnalysis.dominantColors.map((color, i) => (
+              <div
+                key={i}
+                className="flex-1 cursor-pointer"
+                style={{ backgroundColor: color }}
+                onClick={() => navigator.clipboard.writeText(color)}
+              />
+            ))}
+          </div>
+        )}
+        <div className="text-xs text-center mt-2 text-gray-500">
+          Click to copy Hex{localAnalysis && !isLocalOnly && ' · lower strip: local k-means palette'}
+        </div>
+        <ColorTools colors={analysis.dominantColors} originalImage={originalImage} layers={layers} />
       </section>
 
       {/* Metadata dump (hidden by default mostly) */}
@@ -92,7 +206,14 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis }) => {
             {JSON.stringify({ 
                 brightness: analysis.brightnessMap,
                 contrast: analysis.contrastLevel,
-                centerMass: analysis.visualWeightCenter 
+                centerMass: analysis.visualWeightCenter,
+                ...(localAnalysis && !isLocalOnly && {
+                  local: {
+                    brightness: localAnalysis.brightnessMap,
+                    contrast: localAnalysis.contrastLevel,
+                    centerMass: localAnalysis.visualWeightCenter
+                  }
+                })
             }, null, 2)}
         </pre>
       </section>
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { BatchItem } from '../types';
+import { ProviderSettings } from '../services/analysisProvider';
+import { analyzeImageSource } from '../services/analysisService';
+import { downloadBlob } from '../utils/imageProcessing';
+import { prepareImageFile } from '../utils/imageInput';
+import { batchToCsv, batchToJson } from '../utils/batchExport';
+
+interface BatchViewProps {
+  files: File[];
+  settings: ProviderSettings;
+  onOpen: (item: BatchItem) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  QUEUED: 'bg-gray-700 text-gray-300',
+  ANALYZING: 'bg-blue-900/60 text-blue-300 animate-pulse',
+  SUCCESS: 'bg-emerald-900/60 text-emerald-300',
+  ERROR: 'bg-red-900/60 text-red-300',
+};
+
+export const BatchView: React.FC<BatchViewProps> = ({ files, settings, onOpen, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(3);
+  const [paused, setPaused] = useState(false);
+
+  // Load the dropped files into queue items
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(files.map(async (file, index): Promise<BatchItem> => {
+      const item = {
+        id: `batch-${index}-${Date.now()}`,
+        fileName: file.webkitRelativePath || file.name,
+        result: null,
+        attempts: 0
+      };
+      try {
+        return { ...item, imageSrc: await prepareImageFile(file), status: 'QUEUED', error: null };
+      } catch (err: any) {
+        // Unreadable files stay in the gallery as failures instead of blocking the batch
+        return { ...item, imageSrc: '', status: 'ERROR', error: err.message || 'Failed to read image' };
+      }
+    })).then(loaded => {
+      if (!cancelled) setItems(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [files]);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(i => i.id === id ? { ...i, ...patch } : i));
+  };
+
+  // Queue runner: keep up to `concurrency` analyses in flight
+  useEffect(() => {
+    if (paused) return;
+    const running = items.filter(i => i.status === 'ANALYZING').length;
+    const next = items.filter(i => i.status === 'QUEUED').slice(0, Math.max(0, concurrency - running));
+    if (next.length === 0) return;
+
+    const startedIds = new Set(next.map(i => i.id));
+    setItems(prev => prev.map(i => startedIds.has(i.id) ? { ...i, status: 'ANALYZING', attempts: i.attempts + 1 } : i));
+
+    next.forEach(item => {
+      analyzeImageSource(item.imageSrc, settings)
+        .then(result => updateItem(item.id, { status: 'SUCCESS', result, error: null }))
+        .catch((err: any) => updateItem(item.id, { status: 'ERROR', error: err.message || 'Failed to analyze image' }));
+    });
+  }, [items, concurrency, paused, settings]);
+
+  const handleRetry = (id: string) => updateItem(id, { status: 'QUEUED', error: null });
+
+  const handleRetryFailed = () => {
+    setItems(prev => prev.map(i => i.status === 'ERROR' && i.imageSrc ? { ...i, status: 'QUEUED', error: null } : i));
+  };
+
+  const done = items.filter(i => i.status === 'SUCCESS');
+  const failed = items.filter(i => i.status === 'ERROR');
+  const average = (pick: (item: BatchItem) => number) =>
+    done.length ? Math.round(done.reduce((acc, i) => acc + pick(i), 0) / done.length) : '–';
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-950">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-gray-800 bg-gray-900">
+        <div className="flex items-center gap-4 text-sm text-gray-400">
+          <span className="text-white font-medium">{done.length}/{files.length} analyzed</span>
+          {failed.length > 0 && <span className="text-red-400">{failed.length} failed</span>}
+          <span className="w-px h-4 bg-gray-700"></span>
+          <span>Avg. Thirds {average(i => i.result!.analysis.ruleOfThirdsScore)}</span>
+          <span>Avg. Balance {average(i => i.result!.analysis.visualBalanceScore)}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-gray-500 flex items-center gap-2">
+            Concurrency
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+            />
+          </label>
+          <button
+            onClick={() => setPaused(p => !p)}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700"
+          >
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          {failed.length > 0 && (
+            <button
+              onClick={handleRetryFailed}
+              className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700"
+            >
+              Retry Failed
+            </button>
+          )}
+          <button
+            onClick={() => downloadBlob(new Blob([batchToCsv(items)], { type: 'text/csv' }), 'thumbnail_scores.csv')}
+            disabled={done.length === 0}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([batchToJson(items)], { type: 'application/json' }), 'thumbnail_scores.json')}
+            disabled={done.length === 0}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-400 hover:text-white ml-2">
+            Close Batch
+          </button>
+        </div>
+      </div>
+
+      {/* Gallery */}
+      <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+        {items.length === 0 && (
+          <div className="text-center text-gray-500 mt-20 animate-pulse">Loading {files.length} files...</div>
+        )}
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-4">
+          {items.map(item => (
+            <div
+              key={item.id}
+              onClick={() => item.status === 'SUCCESS' && onOpen(item)}
+              className={`bg-gray-900 rounded-xl border border-gray-800 overflow-hidden group ${item.status === 'SUCCESS' ? 'cursor-pointer hover:border-brand-500' : ''}`}
+            >
+              <div className="aspect-video bg-gray-800 relative">
+                {item.imageSrc && <img src={item.imageSrc} alt={item.fileName} className="w-full h-full object-cover" />}
+                <span className={`absolute top-2 right-2 text-[10px] px-2 py-0.5 rounded font-bold tracking-wider ${STATUS_STYLES[item.status]}`}>
+                  {item.status}
+                </span>
+              </div>
+              <div className="p-3">
+                <p className="text-sm text-gray-200 truncate" title={item.fileName}>{item.fileName}</p>
+                {item.result && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Thirds {item.result.analysis.ruleOfThirdsScore} • Balance {item.result.analysis.visualBalanceScore} • {item.result.layers.length} layers
+                  </p>
+                )}
+                {item.status === 'ERROR' && (
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-xs text-red-400 truncate" title={item.error ?? ''}>{item.error}</p>
+                    {item.imageSrc && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRetry(item.id);
+                        }}
+                        className="text-xs text-white bg-gray-700 hover:bg-gray-600 px-2 py-0.5 rounded shrink-0"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
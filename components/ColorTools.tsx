@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { LayerData } from '../types';
+import { downloadBlob } from '../utils/imageProcessing';
+import {
+  ColorVision,
+  buildAse,
+  buildCssVariables,
+  buildGpl,
+  classifyHarmony,
+  simulateColorVision,
+  simulateHex,
+  textContrastReport
+} from '../utils/palette';
+
+interface ColorToolsProps {
+  colors: string[];
+  originalImage?: HTMLImageElement | null;
+  layers?: LayerData[];
+}
+
+const VISIONS: { id: ColorVision | null; label: string }[] = [
+  { id: null, label: 'Normal' },
+  { id: 'protanopia', label: 'Protan' },
+  { id: 'deuteranopia', label: 'Deutan' },
+  { id: 'tritanopia', label: 'Tritan' },
+];
+
+const Badge: React.FC<{ pass: boolean; label: string }> = ({ pass, label }) => (
+  <span className={`px-1 rounded text-[10px] ${pass ? 'bg-emerald-900/50 text-emerald-300' : 'bg-gray-800 text-gray-600 line-through'}`}>
+    {label}
+  </span>
+);
+
+export const ColorTools: React.FC<ColorToolsProps> = ({ colors, originalImage, layers }) => {
+  const [vision, setVision] = useState<ColorVision | null>(null);
+
+  const harmony = useMemo(() => classifyHarmony(colors), [colors]);
+  const contrast = useMemo(
+    () => originalImage && layers ? textContrastReport(originalImage, layers) : [],
+    [originalImage, layers]
+  );
+  const simulated = useMemo(
+    () => originalImage && vision ? simulateColorVision(originalImage, vision) : null,
+    [originalImage, vision]
+  );
+
+  const swatches = colors.map((hex, i) => ({ name: `Thumbnail ${i + 1}`, hex }));
+
+  return (
+    <div className="space-y-5 mt-4">
+      {/* Harmony */}
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-500">Harmony</span>
+        <span className="bg-gray-800 border border-gray-700 text-gray-200 px-2 py-0.5 rounded capitalize" title={harmony.hues.map(h => `${h}°`).join(', ')}>
+          {harmony.type.replace('-', ' ')}
+        </span>
+      </div>
+
+      {/* Contrast of text layers */}
+      {contrast.length > 0 && (
+        <div>
+          <h4 className="text-xs text-gray-500 font-bold tracking-wider mb-2">TEXT CONTRAST (WCAG)</h4>
+          <ul className="space-y-1.5">
+            {contrast.map(row => (
+              <li key={row.layerId} className="flex items-center gap-2 text-xs">
+                <span
+                  className="w-7 h-5 rounded border border-gray-700 flex items-center justify-center font-bold text-[10px]"
+                  style={{ backgroundColor: row.background, color: row.foreground }}
+                  title={`${row.foreground} on ${row.background}`}
+                >
+                  Aa
+                </span>
+                <span className="flex-1 truncate text-gray-300">{row.label}</span>
+                <span className="text-gray-200 tabular-nums">{row.ratio.toFixed(1)}:1</span>
+                <Badge pass={row.aaLarge} label="AA18" />
+                <Badge pass={row.aa} label="AA" />
+                <Badge pass={row.aaa} label="AAA" />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Color vision simulation */}
+      <div>
+        <h4 className="text-xs text-gray-500 font-bold tracking-wider mb-2">COLOR VISION</h4>
+        <div className="flex gap-1 mb-2">
+          {VISIONS.map(v => (
+            <button
+              key={v.label}
+              onClick={() => setVision(v.id)}
+              className={`flex-1 px-2 py-1 rounded text-xs border ${vision === v.id ? 'bg-brand-900/50 border-brand-700 text-brand-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+        {vision && simulated && (
+          <img src={simulated} alt={`Simulated ${vision}`} className="w-full rounded-lg border border-gray-800 mb-2" />
+        )}
+        <div className="flex h-5 rounded overflow-hidden">
+          {colors.map((color, i) => (
+            <div key={i} className="flex-1" style={{ backgroundColor: vision ? simulateHex(color, vision) : color }} />
+          ))}
+        </div>
+      </div>
+
+      {/* Export */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadBlob(buildAse(swatches), 'thumbnail_palette.ase')}
+          className="flex-1 bg-gray-800 hover:bg-gray-700 text-white px-2 py-1.5 rounded text-xs border border-gray-700"
+        >
+          ASE
+        </button>
+        <button
+          onClick={() => downloadBlob(buildGpl('Thumbnail', swatches), 'thumbnail_palette.gpl')}
+          className="flex-1 bg-gray-800 hover:bg-gray-700 text-white px-2 py-1.5 rounded text-xs border border-gray-700"
+        >
+          GPL
+        </button>
+        <button
+          onClick={() => downloadBlob(buildCssVariables(swatches), 'thumbnail_palette.css')}
+          className="flex-1 bg-gray-800 hover:bg-gray-700 text-white px-2 py-1.5 rounded text-xs border border-gray-700"
+        >
+          CSS vars
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, Legend } from 'recharts';
+import { CompareVariant, ElementType } from '../types';
+import { ProviderSettings } from '../services/analysisProvider';
+import { analyzeImageSource } from '../services/analysisService';
+import { downloadBlob } from '../utils/imageProcessing';
+import { prepareImageFile } from '../utils/imageInput';
+import { RADAR_METRICS, buildComparison, comparisonToCsv, metricWinners, overallScore, typeBreakdown } from '../utils/comparison';
+
+interface CompareViewProps {
+  initialVariants: CompareVariant[];
+  settings: ProviderSettings;
+  onClose: () => void;
+}
+
+const SERIES_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ec4899', '#8b5cf6', '#ef4444'];
+
+export const CompareView: React.FC<CompareViewProps> = ({ initialVariants, settings, onClose }) => {
+  const [variants, setVariants] = useState<CompareVariant[]>(initialVariants);
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddFiles = async (files: File[]) => {
+    setError(null);
+    setPending(p => p + files.length);
+    await Promise.all(files.map(async file => {
+      try {
+        const imageSrc = await prepareImageFile(file);
+        const result = await analyzeImageSource(imageSrc, settings);
+        setVariants(prev => [...prev, { id: `variant-${Date.now()}-${file.name}`, name: file.name, imageSrc, result }]);
+      } catch (err: any) {
+        setError(`${file.name}: ${err.message || 'Failed to analyze image'}`);
+      } finally {
+        setPending(p => p - 1);
+      }
+    }));
+  };
+
+  const radarData = RADAR_METRICS.map(metric => ({
+    subject: metric.label,
+    ...Object.fromEntries(variants.map(v => [v.id, metric.score(v.result.analysis, v.result.layers)]))
+  }));
+
+  const winnerCount = (id: string) => RADAR_METRICS.filter(m => metricWinners(variants, m).includes(id)).length;
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-950">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800 bg-gray-900">
+        <div className="text-sm text-gray-400">
+          <span className="text-white font-medium">Compare</span> · {variants.length} variants
+          {pending > 0 && <span className="ml-3 text-blue-400 animate-pulse">Analyzing {pending}...</span>}
+          {error && <span className="ml-3 text-red-400">{error}</span>}
+        </div>
+        <div className="flex gap-3">
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*,.heic,.heif,.avif"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) handleAddFiles(Array.from(e.target.files));
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="bg-brand-600 hover:bg-brand-500 text-white px-3 py-1.5 rounded-lg text-sm font-medium"
+          >
+            + Add Variant
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([JSON.stringify(buildComparison(variants), null, 2)], { type: 'application/json' }), 'thumbnail_comparison.json')}
+            disabled={variants.length < 2}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([comparisonToCsv(variants)], { type: 'text/csv' }), 'thumbnail_comparison.csv')}
+            disabled={variants.length < 2}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-400 hover:text-white ml-2">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
+        {/* Variants side by side */}
+        <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.max(2, variants.length)}, minmax(0, 1fr))` }}>
+          {variants.map((variant, i) => (
+            <div key={variant.id} className="bg-gray-900 rounded-xl border border-gray-800 overflow-hidden">
+              <div className="relative">
+                <img src={variant.imageSrc} alt={variant.name} className="w-full aspect-video object-cover" />
+                <div className="absolute top-2 left-2 w-3 h-3 rounded-full" style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }} />
+                <button
+                  onClick={() => setVariants(prev => prev.filter(v => v.id !== variant.id))}
+                  className="absolute top-2 right-2 bg-black/60 hover:bg-black/80 text-white text-xs px-2 py-0.5 rounded"
+                  title="Remove variant"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-gray-200 truncate" title={variant.name}>{variant.name}</p>
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {overallScore(variant.result.analysis, variant.result.layers)} overall
+                    {winnerCount(variant.id) > 0 && <span className="ml-1 text-emerald-400">· 🏆 {winnerCount(variant.id)}</span>}
+                  </span>
+                </div>
+                <div className="flex h-6 rounded overflow-hidden">
+                  {variant.result.analysis.dominantColors.map((color, j) => (
+                    <div key={j} className="flex-1" style={{ backgroundColor: color }} title={color} />
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+          {variants.length < 2 && (
+            <button
+              onClick={() => inputRef.current?.click()}
+              className="border-2 border-dashed border-gray-700 hover:border-gray-500 rounded-xl flex items-center justify-center text-gray-500 min-h-[12rem]"
+            >
+              Add a variant to compare against
+            </button>
+          )}
+        </div>
+
+        {variants.length > 0 && (
+          <div className="grid grid-cols-2 gap-6">
+            {/* Shared radar */}
+            <section className="bg-gray-900 rounded-xl border border-gray-800 p-4 h-80">
+              <h3 className="text-sm text-gray-500 font-bold tracking-wider mb-2">SCORE MAP</h3>
+              <ResponsiveContainer width="100%" height="90%">
+                <RadarChart cx="50%" cy="50%" outerRadius="75%" data={radarData}>
+                  <PolarGrid stroke="#374151" />
+                  <PolarAngleAxis dataKey="subject" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+                  <PolarRadiusAxis angle={30} domain={[0, 100]} stroke="none" />
+                  {variants.map((variant, i) => (
+                    <Radar
+                      key={variant.id}
+                      name={variant.name}
+                      dataKey={variant.id}
+                      stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                      strokeWidth={2}
+                      fill={SERIES_COLORS[i % SERIES_COLORS.length]}
+                      fillOpacity={0.12}
+                    />
+                  ))}
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                </RadarChart>
+              </ResponsiveContainer>
+            </section>
+
+            {/* Metric table */}
+            <section className="bg-gray-900 rounded-xl border border-gray-800 p-4 overflow-x-auto">
+              <h3 className="text-sm text-gray-500 font-bold tracking-wider mb-3">METRICS</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 text-xs">
+                    <th className="text-left font-normal pb-2">Metric</th>
+                    {variants.map((v, i) => (
+                      <th key={v.id} className="text-right font-normal pb-2 truncate max-w-[8rem]" style={{ color: SERIES_COLORS[i % SERIES_COLORS.length] }}>
+                        {v.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {RADAR_METRICS.map(metric => {
+                    const winners = metricWinners(variants, metric);
+                    return (
+                      <tr key={metric.key} className="border-t border-gray-800">
+                        <td className="py-1.5 text-gray-400">{metric.label}</td>
+                        {variants.map(v => (
+                          <td key={v.id} className={`py-1.5 text-right ${winners.includes(v.id) ? 'text-emerald-400 font-bold' : 'text-gray-200'}`}>
+                            {metric.score(v.result.analysis, v.result.layers)}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                  <tr className="border-t border-gray-800">
+                    <td className="py-1.5 text-gray-400">Layers</td>
+                    {variants.map(v => (
+                      <td key={v.id} className="py-1.5 text-right text-gray-200">{v.result.layers.length}</td>
+                    ))}
+                  </tr>
+                  {Object.values(ElementType).map(type => (
+                    <tr key={type} className="text-xs">
+                      <td className="py-0.5 pl-3 text-gray-600 capitalize">{type.toLowerCase()}</td>
+                      {variants.map(v => (
+                        <td key={v.id} className="py-0.5 text-right text-gray-500">{typeBreakdown(v)[type]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
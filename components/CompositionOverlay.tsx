@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { CompositionAnalysis } from '../types';
+import { PixelStats } from '../utils/compositionMetrics';
+import { GOLDEN_LINES, OverlayKind, THIRDS_LINES, balanceTilt, renderHeatmap } from '../utils/overlays';
+
+interface CompositionOverlayProps {
+  enabled: Record<OverlayKind, boolean>;
+  analysis?: CompositionAnalysis | null;
+  pixelStats?: PixelStats | null;
+}
+
+// Non-scaling strokes keep widths and dashes in screen pixels despite the stretched viewBox
+const LINE_PROPS = { vectorEffect: 'non-scaling-stroke' } as const;
+
+// Grid lines in the 0-100 viewBox, both directions
+const gridLines = (fractions: number[], stroke: string, dash?: string) =>
+  fractions.flatMap(f => [
+    <line key={`v${f}`} {...LINE_PROPS} x1={f * 100} y1={0} x2={f * 100} y2={100} stroke={stroke} strokeDasharray={dash} />,
+    <line key={`h${f}`} {...LINE_PROPS} x1={0} y1={f * 100} x2={100} y2={f * 100} stroke={stroke} strokeDasharray={dash} />,
+  ]);
+
+export const CompositionOverlay: React.FC<CompositionOverlayProps> = ({ enabled, analysis, pixelStats }) => {
+  const heatmap = useMemo(
+    () => enabled.heatmap && pixelStats ? renderHeatmap(pixelStats) : null,
+    [enabled.heatmap, pixelStats]
+  );
+  const center = analysis?.visualWeightCenter;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-[5]">
+      {heatmap && (
+        <img src={heatmap} alt="" className="absolute inset-0 w-full h-full mix-blend-screen opacity-80" />
+      )}
+
+      {/* Percent coordinates, stretched over the image */}
+      <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox="0 0 100 100" preserveAspectRatio="none">
+        <g strokeWidth={1}>
+          {enabled.thirds && gridLines(THIRDS_LINES, 'rgba(255,255,255,0.7)')}
+          {enabled.golden && gridLines(GOLDEN_LINES, 'rgba(250,204,21,0.8)', '6 4')}
+        </g>
+
+        {enabled.balance && center && (
+          <g>
+            <line {...LINE_PROPS} x1={50} y1={0} x2={50} y2={100} stroke="rgba(255,255,255,0.35)" strokeDasharray="3 3" />
+            <line
+              {...LINE_PROPS}
+              x1={10} y1={50} x2={90} y2={50}
+              stroke="#f472b6"
+              strokeWidth={3}
+              transform={`rotate(${balanceTilt(center.x)} 50 50)`}
+            />
+            <line {...LINE_PROPS} x1={50} y1={50} x2={center.x} y2={center.y} stroke="#f472b6" strokeWidth={1.5} strokeDasharray="5 3" />
+          </g>
+        )}
+      </svg>
+
+      {/* Markers are HTML so they stay round on non-square images */}
+      {enabled.thirds && THIRDS_LINES.flatMap(y => THIRDS_LINES.map(x => (
+        <div
+          key={`${x}-${y}`}
+          className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full border border-white/80"
+          style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+        />
+      )))}
+      {enabled.balance && (
+        <div className="absolute w-2 h-2 -ml-1 -mt-1 bg-white/70 rounded-full" style={{ left: '50%', top: '50%' }} />
+      )}
+      {enabled.weight && center && (
+        <div
+          className="absolute -ml-3 -mt-3 w-6 h-6 rounded-full border-2 border-red-400 bg-red-500/30 transition-all duration-300 flex items-center justify-center"
+          style={{ left: `${center.x}%`, top: `${center.y}%` }}
+          title="Visual weight center"
+        >
+          <div className="w-1.5 h-1.5 rounded-full bg-red-400" />
+          <span className="absolute left-7 top-0.5 whitespace-nowrap text-[10px] bg-black/70 text-red-300 px-1 rounded">
+            Weight {center.x}, {center.y}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
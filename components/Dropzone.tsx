@@ -1,12 +1,39 @@
 import React, { useRef, useState } from 'react';
+import { isImageFile, prepareImageFile } from '../utils/imageInput';
+import { PROJECT_FILE_EXTENSION, isProjectFile } from '../utils/projectFile';
 
 interface DropzoneProps {
   onImageSelected: (base64: string, rawFile: File) => void;
+  onFilesSelected?: (files: File[]) => void; // Multiple files or a folder; enables batch mode
+  onProjectSelected?: (project: File, image?: File) => Promise<void>; // A .tsep file, or a legacy JSON export with its image
 }
 
-export const Dropzone: React.FC<DropzoneProps> = ({ onImageSelected }) => {
+// Recursively collects files from a dropped file or directory entry
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in chunks until it yields an empty list
+    while (true) {
+      const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (chunk.length === 0) break;
+      entries.push(...chunk);
+    }
+    const nested = await Promise.all(entries.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+export const Dropzone: React.FC<DropzoneProps> = ({ onImageSelected, onFilesSelected, onProjectSelected }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -17,36 +44,62 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onImageSelected }) => {
     setIsDragging(false);
   };
 
-  const processFile = (file: File) => {
-    if (!file.type.startsWith('image/')) return;
-    
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const result = event.target?.result as string;
-      // Strip mimetype prefix to get raw base64 if needed elsewhere, 
-      // but standard Image src uses the full string.
-      // For Gemini, we usually strip it in the service if passing pure base64.
-      // But let's pass the full DataURL and handle splitting in the parent or service.
-      
-      // Actually, for Gemini SDK, we usually need the base64 part only (after comma).
-      // Let's pass the full thing and helper can strip it.
-      onImageSelected(result, file);
-    };
-    reader.readAsDataURL(file);
+  const processFile = async (file: File) => {
+    setError(null);
+    try {
+      // Pass the full Data URL; the service builds the upload payload from it
+      onImageSelected(await prepareImageFile(file), file);
+    } catch (err: any) {
+      setError(`${file.name}: ${err.message || 'Failed to read image'}`);
+    }
+  };
+
+  const processProject = async (project: File, image?: File) => {
+    setError(null);
+    try {
+      await onProjectSelected!(project, image);
+    } catch (err: any) {
+      setError(`${project.name}: ${err.message || 'Failed to import project'}`);
+    }
+  };
+
+  const processFiles = (files: File[]) => {
+    const images = files
+      .filter(isImageFile)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const project = onProjectSelected ? files.find(isProjectFile) : undefined;
+    if (project && images.length <= 1) {
+      processProject(project, images[0]);
+    } else if (images.length > 1 && onFilesSelected) {
+      onFilesSelected(images);
+    } else if (images[0]) {
+      processFile(images[0]);
+    }
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
+
+    // Entries must be grabbed synchronously, before the event is recycled
+    const items: DataTransferItem[] = e.dataTransfer.items ? Array.from(e.dataTransfer.items) : [];
+    const entries = items
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+    if (onFilesSelected && entries.some(entry => entry.isDirectory)) {
+      const nested = await Promise.all(entries.map(readEntry));
+      processFiles(nested.flat());
+    } else if (e.dataTransfer.files) {
+      processFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+    if (e.target.files) {
+      processFiles(Array.from(e.target.files));
     }
+    e.target.value = '';
   };
 
   return (
@@ -69,7 +122,15 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onImageSelected }) => {
         className="hidden" 
         ref={inputRef} 
         onChange={handleChange} 
-        accept="image/*"
+        accept={`image/*,.heic,.heif,.avif${onProjectSelected ? `,${PROJECT_FILE_EXTENSION},.json` : ''}`}
+        multiple={Boolean(onFilesSelected)}
+      />
+      <input
+        type="file"
+        className="hidden"
+        ref={folderInputRef}
+        onChange={handleChange}
+        {...{ webkitdirectory: '', directory: '' }}
       />
       
       <div className="text-6xl mb-4 opacity-80">
@@ -78,12 +139,42 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onImageSelected }) => {
       <h3 className="text-2xl font-bold text-white mb-2">
         Drop Thumbnail Here
       </h3>
-      <p className="text-gray-400 mb-6">or click to browse</p>
+      <p className="text-gray-400 mb-6">
+        or click to browse
+        {onFilesSelected && (
+          <>
+            {' · '}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                folderInputRef.current?.click();
+              }}
+              className="text-brand-500 hover:underline"
+            >
+              choose a folder
+            </button>
+          </>
+        )}
+      </p>
+      {onFilesSelected && (
+        <p className="text-xs text-gray-500 -mt-4 mb-6">Drop several files or a folder to analyze them as a batch</p>
+      )}
+      {onProjectSelected && (
+        <p className="text-xs text-gray-500 -mt-4 mb-6">Drop a {PROJECT_FILE_EXTENSION} project to reopen it, or an old JSON export together with its image</p>
+      )}
+      {error && (
+        <p className="text-sm text-red-400 -mt-2 mb-6">{error}</p>
+      )}
       
       <div className="flex gap-4 text-xs text-gray-500 font-mono">
         <span className="bg-gray-800 px-2 py-1 rounded">JPG</span>
         <span className="bg-gray-800 px-2 py-1 rounded">PNG</span>
         <span className="bg-gray-800 px-2 py-1 rounded">WEBP</span>
+        <span className="bg-gray-800 px-2 py-1 rounded">HEIC</span>
+        <span className="bg-gray-800 px-2 py-1 rounded">AVIF</span>
+        <span className="bg-gray-800 px-2 py-1 rounded">GIF</span>
+        <span className="bg-gray-800 px-2 py-1 rounded">SVG</span>
+        {onProjectSelected && <span className="bg-gray-800 px-2 py-1 rounded">TSEP</span>}
       </div>
     </div>
   );
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { HistoryState } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (target: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { past, future } = history;
+
+  return (
+    <div className="border-t border-gray-800 bg-gray-850">
+      <div className="flex items-center justify-between px-3 py-2">
+        <button
+          onClick={() => setExpanded(e => !e)}
+          className="text-xs font-bold tracking-wider text-gray-500 hover:text-gray-300"
+        >
+          {expanded ? '▾' : '▸'} HISTORY
+          <span className="ml-2 font-normal text-gray-600">{past.length}</span>
+        </button>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={past.length === 0}
+            title="Undo (Ctrl+Z)"
+            className="px-2 py-1 text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 rounded disabled:opacity-30 disabled:hover:bg-gray-800"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-2 py-1 text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 rounded disabled:opacity-30 disabled:hover:bg-gray-800"
+          >
+            ↷ Redo
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <ol className="max-h-40 overflow-y-auto px-2 pb-2 space-y-0.5 text-xs custom-scrollbar">
+          {/* Most recent first; redoable entries are dimmed */}
+          {[...future].reverse().map((command, i) => (
+            <li key={`future-${i}`}>
+              <button
+                onClick={() => onJump(past.length + future.length - i)}
+                className="w-full text-left px-2 py-1 rounded text-gray-600 hover:bg-gray-800 truncate"
+              >
+                {command.label}
+              </button>
+            </li>
+          ))}
+          {[...past].reverse().map((command, i) => (
+            <li key={`past-${i}`}>
+              <button
+                onClick={() => onJump(past.length - i)}
+                className={`w-full text-left px-2 py-1 rounded hover:bg-gray-800 truncate ${i === 0 ? 'text-white bg-gray-800/60' : 'text-gray-300'}`}
+              >
+                {command.label}
+              </button>
+            </li>
+          ))}
+          <li>
+            <button
+              onClick={() => onJump(0)}
+              className={`w-full text-left px-2 py-1 rounded hover:bg-gray-800 italic ${past.length === 0 ? 'text-white' : 'text-gray-500'}`}
+            >
+              Original analysis
+            </button>
+          </li>
+        </ol>
+      )}
+    </div>
+  );
+};
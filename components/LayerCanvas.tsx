@@ -1,25 +1,103 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { LayerData, BoundingBox } from '../types';
-import { cropLayer, downloadFile } from '../utils/imageProcessing';
+import { LayerData, BoundingBox, CompositionAnalysis, ElementType } from '../types';
+import { clampBox, cutoutLayer, downloadFile, renderLayerCanvas } from '../utils/imageProcessing';
+import { PixelStats } from '../utils/compositionMetrics';
+import { OVERLAYS, OverlayKind } from '../utils/overlays';
+import { GAZE_ARROWS } from '../utils/faces';
+import { CompositionOverlay } from './CompositionOverlay';
 
 interface LayerCanvasProps {
   imageSrc: string;
   layers: LayerData[];
   selectedLayerId: string | null;
   onSelectLayer: (id: string | null) => void;
+  onUpdateLayerBox: (id: string, box: BoundingBox) => void;
+  onAddLayer: (label: string, type: ElementType, box: BoundingBox) => void;
+  requestedDetails?: Set<string>; // Layers whose text/face reading was asked for; undefined when it runs for all
+  onRequestDetails?: (id: string) => void;
+  analysis?: CompositionAnalysis | null; // Live scores for the weight and balance overlays
+  pixelStats?: PixelStats | null; // Saliency for the heatmap overlay
+  readOnly?: boolean; // Preview only (e.g. while layers stream in): no editing, selection or overlay toggles
 }
 
+type EditMode = 'view' | 'edit' | 'draw';
+type Handle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+interface DragState {
+  action: 'move' | 'draw' | Handle;
+  layerId: string | null;
+  origin: { x: number; y: number };
+  startBox: BoundingBox;
+}
+
+const HANDLES: Handle[] = ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+
+const HANDLE_POSITION: Record<Handle, React.CSSProperties> = {
+  n: { top: 0, left: '50%', cursor: 'ns-resize' },
+  s: { top: '100%', left: '50%', cursor: 'ns-resize' },
+  e: { top: '50%', left: '100%', cursor: 'ew-resize' },
+  w: { top: '50%', left: 0, cursor: 'ew-resize' },
+  ne: { top: 0, left: '100%', cursor: 'nesw-resize' },
+  nw: { top: 0, left: 0, cursor: 'nwse-resize' },
+  se: { top: '100%', left: '100%', cursor: 'nwse-resize' },
+  sw: { top: '100%', left: 0, cursor: 'nesw-resize' },
+};
+
+// Applies a pointer delta (normalized units) to a box for the given drag action
+const dragBox = (drag: DragState, point: { x: number; y: number }): BoundingBox => {
+  const dx = point.x - drag.origin.x;
+  const dy = point.y - drag.origin.y;
+  const box = { ...drag.startBox };
+
+  if (drag.action === 'draw') {
+    return clampBox({ xmin: drag.origin.x, ymin: drag.origin.y, xmax: point.x, ymax: point.y });
+  }
+
+  if (drag.action === 'move') {
+    const w = box.xmax - box.xmin;
+    const h = box.ymax - box.ymin;
+    const xmin = Math.min(1 - w, Math.max(0, box.xmin + dx));
+    const ymin = Math.min(1 - h, Math.max(0, box.ymin + dy));
+    return { xmin, ymin, xmax: xmin + w, ymax: ymin + h };
+  }
+
+  if (drag.action.includes('n')) box.ymin += dy;
+  if (drag.action.includes('s')) box.ymax += dy;
+  if (drag.action.includes('w')) box.xmin += dx;
+  if (drag.action.includes('e')) box.xmax += dx;
+  return clampBox(box);
+};
+
 export const LayerCanvas: React.FC<LayerCanvasProps> = ({ 
   imageSrc, 
   layers, 
   selectedLayerId, 
-  onSelectLayer 
+  onSelectLayer,
+  onUpdateLayerBox,
+  onAddLayer,
+  requestedDetails,
+  onRequestDetails,
+  analysis,
+  pixelStats,
+  readOnly = false
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [imgDimensions, setImgDimensions] = useState({ width: 0, height: 0 });
 
+  // Box editing state (full composition view only)
+  const [mode, setMode] = useState<EditMode>('view');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draftBox, setDraftBox] = useState<BoundingBox | null>(null);
+  const [overlays, setOverlays] = useState<Record<OverlayKind, boolean>>({
+    thirds: false, golden: false, weight: false, balance: false, heatmap: false
+  });
+  const [pendingBox, setPendingBox] = useState<BoundingBox | null>(null);
+  const [newLabel, setNewLabel] = useState('New Layer');
+  const [newType, setNewType] = useState<ElementType>(ElementType.OBJECT);
+
   const selectedLayer = layers.find(l => l.id === selectedLayerId);
 
   // Handle loading the source image dimensions
@@ -56,6 +134,19 @@ export const LayerCanvas: React.FC<LayerCanvasProps> = ({
         sx, sy, sw, sh,
         0, 0, sw, sh
       );
+
+      // Swap in the clean plate and cut out the segmented shape once decoded
+      if (selectedLayer.maskUrl || selectedLayer.fillUrl) {
+        let cancelled = false;
+        renderLayerCanvas(imageRef.current, selectedLayer)
+          .then(rendered => {
+            if (cancelled) return;
+            ctx.clearRect(0, 0, sw, sh);
+            ctx.drawImage(rendered, 0, 0, sw, sh);
+          })
+          .catch(() => { /* keep the rectangular crop */ });
+        return () => { cancelled = true; };
+      }
     }
   }, [selectedLayer, imgDimensions, imageSrc]);
 
@@ -74,9 +165,74 @@ export const LayerCanvas: React.FC<LayerCanvasProps> = ({
     };
   };
 
-  const handleDownloadCrop = () => {
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, action: DragState['action'], layer: LayerData | null) => {
+    if (mode === 'view' || !containerRef.current) return;
+    e.stopPropagation();
+    e.preventDefault();
+    containerRef.current.setPointerCapture(e.pointerId);
+    const origin = toPoint(e);
+    const startBox = layer ? layer.box : { xmin: origin.x, ymin: origin.y, xmax: origin.x, ymax: origin.y };
+    setEditingId(layer ? layer.id : null);
+    setDrag({ action, layerId: layer ? layer.id : null, origin, startBox });
+    setDraftBox(action === 'draw' ? null : startBox);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    setDraftBox(dragBox(drag, toPoint(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag) return;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+    const box = dragBox(drag, toPoint(e));
+
+    if (drag.action === 'draw') {
+      // Ignore accidental clicks; a real box needs some area
+      if (box.xmax - box.xmin > 0.01 && box.ymax - box.ymin > 0.01) setPendingBox(box);
+    } else if (drag.layerId) {
+      const start = drag.startBox;
+      const changed = box.xmin !== start.xmin || box.ymin !== start.ymin || box.xmax !== start.xmax || box.ymax !== start.ymax;
+      if (changed) onUpdateLayerBox(drag.layerId, box);
+    }
+
+    setDrag(null);
+    setDraftBox(null);
+  };
+
+  const handleAddPending = () => {
+    if (!pendingBox) return;
+    onAddLayer(newLabel.trim() || 'New Layer', newType, pendingBox);
+    setPendingBox(null);
+    setNewLabel('New Layer');
+  };
+
+  const handleSetMode = (next: EditMode) => {
+    setMode(prev => prev === next ? 'view' : next);
+    setEditingId(null);
+    setPendingBox(null);
+  };
+
+  const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+    top: `${box.ymin * 100}%`,
+    left: `${box.xmin * 100}%`,
+    width: `${(box.xmax - box.xmin) * 100}%`,
+    height: `${(box.ymax - box.ymin) * 100}%`,
+  });
+
+  const ghostBox = drag?.action === 'draw' ? draftBox : pendingBox;
+
+  const handleDownloadCrop = async () => {
     if (selectedLayer && imageRef.current) {
-        const dataUrl = cropLayer(imageRef.current, selectedLayer.box);
+        const dataUrl = await cutoutLayer(imageRef.current, selectedLayer);
         downloadFile(dataUrl, `${selectedLayer.label.replace(/\s+/g, '_')}_crop.png`);
     }
   };
@@ -117,6 +273,86 @@ export const LayerCanvas: React.FC<LayerCanvasProps> = ({
                 </div>
              </div>
 
+             {/* Recognized text and typography */}
+             {selectedLayer.type === ElementType.TEXT && (
+               selectedLayer.text ? (
+                 <div className="bg-gray-800/60 border border-gray-700 rounded-lg px-4 py-3 text-sm max-w-md w-full">
+                   <p className="text-white font-medium whitespace-pre-line text-center mb-2">“{selectedLayer.text.content}”</p>
+                   <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-400">
+                     <span>Font</span>
+                     <span className="text-gray-200 text-right">{selectedLayer.text.fontFamily ?? 'Unknown'} · {selectedLayer.text.fontWeight}</span>
+                     <span>Size</span>
+                     <span className="text-gray-200 text-right">{selectedLayer.text.fontSize}px</span>
+                     <span>Fill</span>
+                     <span className="text-gray-200 text-right flex items-center justify-end gap-1">
+                       <span className="w-3 h-3 rounded-sm border border-gray-600" style={{ backgroundColor: selectedLayer.text.fill }} />
+                       {selectedLayer.text.fill}
+                     </span>
+                     <span>Stroke</span>
+                     <span className="text-gray-200 text-right flex items-center justify-end gap-1">
+                       {selectedLayer.text.stroke ? (
+                         <>
+                           <span className="w-3 h-3 rounded-sm border border-gray-600" style={{ backgroundColor: selectedLayer.text.stroke.color }} />
+                           {selectedLayer.text.stroke.color} · {selectedLayer.text.stroke.width}px
+                         </>
+                       ) : 'None'}
+                     </span>
+                     <span>Rotation</span>
+                     <span className="text-gray-200 text-right">{selectedLayer.text.rotation}°</span>
+                   </div>
+                   {selectedLayer.text.source === 'local' && (
+                     <p className="text-[11px] text-gray-500 mt-2 text-center">Estimated from pixels · configure a provider to read the text</p>
+                   )}
+                 </div>
+               ) : !requestedDetails || requestedDetails.has(selectedLayer.id) ? (
+                 <p className="text-xs text-gray-500 animate-pulse">Reading text…</p>
+               ) : (
+                 <button
+                   onClick={() => onRequestDetails?.(selectedLayer.id)}
+                   className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg text-xs border border-gray-700"
+                 >
+                   Read text &amp; typography
+                 </button>
+               )
+             )}
+
+             {/* Face, gaze and expression */}
+             {selectedLayer.type === ElementType.PERSON && (
+               selectedLayer.face ? (
+                 <div className="bg-gray-800/60 border border-gray-700 rounded-lg px-4 py-3 text-sm max-w-md w-full">
+                   <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-400">
+                     <span>Gaze</span>
+                     <span className="text-gray-200 text-right capitalize">{GAZE_ARROWS[selectedLayer.face.gaze]} {selectedLayer.face.gaze}</span>
+                     <span>Expression</span>
+                     <span className="text-gray-200 text-right capitalize">
+                       {selectedLayer.face.emotion}
+                       {selectedLayer.face.emotionConfidence > 0 && ` · ${Math.round(selectedLayer.face.emotionConfidence * 100)}%`}
+                     </span>
+                     <span>Face size</span>
+                     <span className="text-gray-200 text-right">{selectedLayer.face.sizePercent}% of frame</span>
+                     <span>Framing</span>
+                     <span className={`text-right ${selectedLayer.face.cutOff ? 'text-amber-300' : 'text-gray-200'}`}>
+                       {selectedLayer.face.cutOff ? 'Cut off by the edge' : 'Fully in frame'}
+                     </span>
+                   </div>
+                   {selectedLayer.face.source === 'local' && (
+                     <p className="text-[11px] text-gray-500 mt-2 text-center">Guessed from the box · configure a provider to read gaze and expression</p>
+                   )}
+                 </div>
+               ) : selectedLayer.face === null ? (
+                 <p className="text-xs text-gray-500">No face visible</p>
+               ) : !requestedDetails || requestedDetails.has(selectedLayer.id) ? (
+                 <p className="text-xs text-gray-500 animate-pulse">Finding face…</p>
+               ) : (
+                 <button
+                   onClick={() => onRequestDetails?.(selectedLayer.id)}
+                   className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg text-xs border border-gray-700"
+                 >
+                   Analyze face &amp; gaze
+                 </button>
+               )
+             )}
+
              <div className="flex gap-3">
                 <button 
                   onClick={() => onSelectLayer(null)}
@@ -137,35 +373,168 @@ export const LayerCanvas: React.FC<LayerCanvasProps> = ({
         // FULL COMPOSITION VIEW
         <div 
             ref={containerRef} 
-            className="relative shadow-2xl transition-opacity duration-500"
-            style={{ maxWidth: '100%', maxHeight: '100%' }}
+            className={`relative shadow-2xl transition-opacity duration-500 ${mode === 'draw' ? 'cursor-crosshair' : ''}`}
+            style={{ maxWidth: '100%', maxHeight: '100%', touchAction: mode === 'view' ? 'auto' : 'none' }}
+            onPointerDown={(e) => {
+              if (mode === 'draw') startDrag(e, 'draw', null);
+              else if (mode === 'edit') setEditingId(null);
+            }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
         >
             <img 
             src={imageSrc} 
             alt="Original" 
             className="block max-w-full max-h-[80vh] object-contain select-none"
+            draggable={false}
             />
 
+            <CompositionOverlay enabled={overlays} analysis={analysis} pixelStats={pixelStats} />
+
             {/* Overlay Layers */}
-            {layers.map((layer) => (
+            {layers.map((layer) => {
+            const isEditing = mode !== 'view' && editingId === layer.id;
+            const box = isEditing && draftBox ? draftBox : layer.box;
+            return (
             <div
                 key={layer.id}
                 onClick={(e) => {
                 e.stopPropagation();
-                onSelectLayer(layer.id);
+                if (mode === 'view' && !readOnly) onSelectLayer(layer.id);
+                }}
+                onPointerDown={(e) => {
+                  if (mode === 'edit') startDrag(e, 'move', layer);
                 }}
                 className={`
-                absolute border-2 cursor-pointer transition-all duration-200 group
-                hover:border-brand-500 hover:bg-brand-500/10
+                absolute border-2 group
+                ${mode === 'view' && !readOnly ? 'cursor-pointer transition-all duration-200 hover:border-brand-500 hover:bg-brand-500/10' : ''}
+                ${mode === 'edit' ? 'cursor-move hover:bg-brand-500/10' : ''}
+                ${mode === 'draw' ? 'pointer-events-none' : ''}
                 `}
-                style={getStyle(layer.box, false, layer.visible)}
+                style={getStyle(box, isEditing, layer.visible)}
             >
                 {/* Hover Tag */}
-                <div className="absolute -top-7 left-0 opacity-0 group-hover:opacity-100 transition-opacity bg-black/80 text-white text-xs px-2 py-1 rounded shadow-sm whitespace-nowrap z-50 pointer-events-none">
+                <div className={`absolute -top-7 left-0 transition-opacity bg-black/80 text-white text-xs px-2 py-1 rounded shadow-sm whitespace-nowrap z-50 pointer-events-none ${isEditing ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
                     {layer.label}
                 </div>
+
+                {/* Resize Handles */}
+                {isEditing && HANDLES.map(handle => (
+                  <div
+                    key={handle}
+                    onPointerDown={(e) => startDrag(e, handle, layer)}
+                    className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border-2 border-brand-500 rounded-sm"
+                    style={HANDLE_POSITION[handle]}
+                  />
+                ))}
             </div>
+            );
+            })}
+
+            {/* Faces of visible people, with gaze and expression */}
+            {mode === 'view' && layers.map(layer => layer.visible && layer.face && (
+              <div
+                key={`face-${layer.id}`}
+                className={`absolute border-2 border-dashed rounded-md pointer-events-none z-[60] ${layer.face.cutOff ? 'border-amber-400' : 'border-emerald-400'}`}
+                style={boxStyle(layer.face.box)}
+              >
+                <span className="absolute top-full left-0 mt-0.5 whitespace-nowrap text-[10px] bg-black/70 text-white px-1 rounded">
+                  {GAZE_ARROWS[layer.face.gaze]} {layer.face.gaze} · {layer.face.emotion}
+                  {layer.face.emotionConfidence > 0 && ` ${Math.round(layer.face.emotionConfidence * 100)}%`}
+                </span>
+              </div>
             ))}
+
+            {/* Box being drawn / awaiting details */}
+            {ghostBox && (
+              <div
+                className="absolute border-2 border-dashed border-brand-500 bg-brand-500/10 pointer-events-none"
+                style={boxStyle(ghostBox)}
+              />
+            )}
+
+            {pendingBox && !drag && (
+              <div
+                className="absolute z-[200] mt-2 bg-gray-900 border border-gray-700 rounded-lg p-3 shadow-xl flex flex-col gap-2 w-56"
+                style={{ top: `${pendingBox.ymax * 100}%`, left: `${Math.min(pendingBox.xmin, 0.7) * 100}%` }}
+                onPointerDown={(e) => e.stopPropagation()}
+              >
+                <input
+                  autoFocus
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleAddPending();
+                    if (e.key === 'Escape') setPendingBox(null);
+                  }}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+                  placeholder="Layer label"
+                />
+                <select
+                  value={newType}
+                  onChange={(e) => setNewType(e.target.value as ElementType)}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+                >
+                  {Object.values(ElementType).map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleAddPending}
+                    className="flex-1 bg-brand-600 hover:bg-brand-500 text-white rounded px-2 py-1 text-sm"
+                  >
+                    Add Layer
+                  </button>
+                  <button
+                    onClick={() => setPendingBox(null)}
+                    className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded px-2 py-1 text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Edit Toolbar */}
+            {!readOnly && (
+            <div
+              className="absolute top-2 left-2 z-[150] flex gap-1 bg-black/70 rounded-lg p-1"
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <button
+                onClick={() => handleSetMode('edit')}
+                className={`px-2 py-1 rounded text-xs ${mode === 'edit' ? 'bg-brand-600 text-white' : 'text-gray-300 hover:text-white'}`}
+              >
+                Edit Boxes
+              </button>
+              <button
+                onClick={() => handleSetMode('draw')}
+                className={`px-2 py-1 rounded text-xs ${mode === 'draw' ? 'bg-brand-600 text-white' : 'text-gray-300 hover:text-white'}`}
+              >
+                Draw Box
+              </button>
+            </div>
+            )}
+
+            {/* Overlay Toggles */}
+            {!readOnly && (
+            <div
+              className="absolute top-2 right-2 z-[150] flex gap-1 bg-black/70 rounded-lg p-1"
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              {OVERLAYS.map(({ kind, label }) => (
+                <button
+                  key={kind}
+                  onClick={() => setOverlays(prev => ({ ...prev, [kind]: !prev[kind] }))}
+                  disabled={kind === 'heatmap' ? !pixelStats : (kind === 'weight' || kind === 'balance') && !analysis}
+                  className={`px-2 py-1 rounded text-xs disabled:opacity-40 ${overlays[kind] ? 'bg-brand-600 text-white' : 'text-gray-300 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            )}
         </div>
       )}
     </div>
@@ -1,38 +1,82 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { LayerData, ElementType } from '../types';
-import { cropLayer, downloadFile } from '../utils/imageProcessing';
+import { cutoutLayer, downloadFile } from '../utils/imageProcessing';
+import { groupRuns } from '../utils/layerTree';
 
 interface LayerListProps {
   layers: LayerData[];
   selectedLayerId: string | null;
   onSelectLayer: (id: string) => void;
   onToggleVisibility: (id: string) => void;
+  onRenameLayer: (id: string, label: string) => void;
+  onDeleteLayers: (ids: string[]) => void;
+  onMergeLayers: (ids: string[]) => void;
+  onGroupLayers: (ids: string[]) => void;
+  onRenameGroup: (from: string, to: string) => void;
+  onUngroup: (group: string) => void;
+  // Moves layers directly above the target; they join `group` (undefined = top level)
+  onMoveLayers: (ids: string[], targetId: string, group: string | undefined) => void;
   originalImage: HTMLImageElement | null;
 }
 
+interface DragPayload {
+  ids: string[];
+  group: string | null; // Set when a whole folder is dragged
+}
+
+const getThumbnailSource = (layer: LayerData) =>
+  `${layer.box.xmin},${layer.box.ymin},${layer.box.xmax},${layer.box.ymax}|${layer.maskUrl ?? ''}|${layer.fillUrl ?? ''}`;
+
 export const LayerList: React.FC<LayerListProps> = ({ 
   layers, 
   selectedLayerId, 
   onSelectLayer, 
   onToggleVisibility,
+  onRenameLayer,
+  onDeleteLayers,
+  onMergeLayers,
+  onGroupLayers,
+  onRenameGroup,
+  onUngroup,
+  onMoveLayers,
   originalImage
 }) => {
   const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  // What each thumbnail was rendered from, so edits (e.g. a new mask) refresh it
+  const thumbnailSources = useRef<Record<string, string>>({});
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [renaming, setRenaming] = useState<{ id: string; group: boolean } | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dragging, setDragging] = useState<DragPayload | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  // A plain click selects a single layer; Ctrl/Cmd/Shift-click builds a multi-selection
+  useEffect(() => {
+    setCheckedIds(selectedLayerId ? [selectedLayerId] : []);
+  }, [selectedLayerId]);
+
+  const checked = checkedIds.filter(id => layers.some(l => l.id === id));
 
   // Generate thumbnails for layers lazily
   useEffect(() => {
     if (!originalImage || layers.length === 0) return;
-    
-    const newThumbs: Record<string, string> = {};
-    layers.forEach(layer => {
-      if (!thumbnails[layer.id]) {
-        newThumbs[layer.id] = cropLayer(originalImage, layer.box);
-      }
-    });
+    let cancelled = false;
 
-    if (Object.keys(newThumbs).length > 0) {
+    const stale = layers.filter(layer => thumbnailSources.current[layer.id] !== getThumbnailSource(layer));
+    if (stale.length === 0) return;
+
+    Promise.all(stale.map(layer => cutoutLayer(originalImage, layer))).then(urls => {
+      if (cancelled) return;
+      const newThumbs: Record<string, string> = {};
+      stale.forEach((layer, i) => {
+        newThumbs[layer.id] = urls[i];
+        thumbnailSources.current[layer.id] = getThumbnailSource(layer);
+      });
       setThumbnails(prev => ({ ...prev, ...newThumbs }));
-    }
+    }).catch(() => { /* leave the placeholder */ });
+
+    return () => { cancelled = true; };
   }, [layers, originalImage]);
 
   const getIcon = (type: ElementType) => {
@@ -55,6 +99,156 @@ export const LayerList: React.FC<LayerListProps> = ({
     }
   };
 
+  const handleRowClick = (e: React.MouseEvent, id: string) => {
+    if (e.ctrlKey || e.metaKey || e.shiftKey) {
+      setCheckedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    } else {
+      onSelectLayer(id);
+    }
+  };
+
+  const startRename = (id: string, current: string, group = false) => {
+    setRenaming({ id, group });
+    setDraftName(current);
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const name = draftName.trim();
+    setRenaming(null);
+    if (!name) return;
+    if (renaming.group) {
+      if (name !== renaming.id) onRenameGroup(renaming.id, name);
+    } else if (name !== layers.find(l => l.id === renaming.id)?.label) {
+      onRenameLayer(renaming.id, name);
+    }
+  };
+
+  const renameInput = (
+    <input
+      autoFocus
+      value={draftName}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={commitRename}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitRename();
+        if (e.key === 'Escape') setRenaming(null);
+      }}
+      className="w-full bg-gray-800 border border-gray-700 rounded px-1 text-sm text-white"
+    />
+  );
+
+  const dropHandlers = (targetId: string, group: string | undefined) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging || dragging.ids.includes(targetId)) return;
+      e.preventDefault();
+      setDropTargetId(targetId);
+    },
+    onDragLeave: () => setDropTargetId(prev => prev === targetId ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTargetId(null);
+      if (!dragging) return;
+      // A dragged folder keeps its name and lands above the folder it was dropped into
+      if (dragging.group !== null) {
+        const targetRun = runs.find(run => run.layers.some(l => l.id === targetId));
+        const above = group && group !== dragging.group && targetRun ? targetRun.layers[0].id : targetId;
+        onMoveLayers(dragging.ids, above, dragging.group);
+      } else {
+        onMoveLayers(dragging.ids, targetId, group);
+      }
+      setDragging(null);
+    },
+  });
+
+  // Top layer first in the list
+  const runs = groupRuns([...layers].reverse());
+
+  const renderLayer = (layer: LayerData, nested: boolean) => (
+    <div 
+      key={layer.id}
+      onClick={(e) => handleRowClick(e, layer.id)}
+      draggable={renaming?.id !== layer.id}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        setDragging({ ids: checked.includes(layer.id) ? checked : [layer.id], group: null });
+      }}
+      onDragEnd={() => setDragging(null)}
+      {...dropHandlers(layer.id, layer.group)}
+      className={`
+        flex items-center p-2 rounded-lg cursor-pointer border transition-colors group
+        ${nested ? 'ml-4' : ''}
+        ${dropTargetId === layer.id ? 'border-t-2 border-t-brand-500' : ''}
+        ${checked.includes(layer.id) 
+          ? 'bg-brand-500/10 border-brand-500/50' 
+          : 'bg-gray-800/50 border-transparent hover:bg-gray-800'
+        }
+      `}
+    >
+      {/* Visibility Toggle */}
+      <button 
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleVisibility(layer.id);
+        }}
+        className={`mr-3 text-gray-500 hover:text-white ${!layer.visible && 'opacity-30'}`}
+      >
+        👁
+      </button>
+
+      {/* Thumbnail Preview */}
+      <div className="w-10 h-10 bg-gray-700 rounded overflow-hidden mr-3 shrink-0 relative checkerboard">
+         {thumbnails[layer.id] ? (
+           <img src={thumbnails[layer.id]} className="w-full h-full object-contain" alt="" />
+         ) : (
+           <div className="w-full h-full animate-pulse bg-gray-600" />
+         )}
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-xs">{getIcon(layer.type)}</span>
+          {renaming?.id === layer.id && !renaming.group ? renameInput : (
+            <p
+              className={`text-sm font-medium truncate ${selectedLayerId === layer.id ? 'text-brand-400' : 'text-gray-200'}`}
+              title="Double-click to rename"
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startRename(layer.id, layer.label);
+              }}
+            >
+              {layer.label}
+            </p>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 truncate capitalize">
+          {layer.subtype || layer.type.toLowerCase()} • Z: {layer.zIndex}
+        </p>
+      </div>
+
+      {/* Quick Actions */}
+      <button 
+        onClick={(e) => handleDownload(e, layer)}
+        className="ml-2 p-1.5 text-gray-500 hover:text-white hover:bg-gray-700 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Download Crop"
+      >
+        ⬇
+      </button>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onDeleteLayers([layer.id]);
+        }}
+        className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-gray-700 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Delete Layer"
+      >
+        🗑
+      </button>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-full bg-gray-900 border-l border-gray-800 w-full overflow-hidden">
       <div className="p-4 border-b border-gray-800 bg-gray-850">
@@ -62,69 +256,72 @@ export const LayerList: React.FC<LayerListProps> = ({
           <span>Layers</span>
           <span className="text-xs text-gray-500 bg-gray-800 px-2 py-1 rounded-full">{layers.length}</span>
         </h2>
+        {checked.length > 1 && (
+          <div className="flex items-center gap-2 mt-3 text-xs">
+            <span className="text-gray-400 mr-auto">{checked.length} selected</span>
+            <button onClick={() => onMergeLayers(checked)} className="bg-gray-800 hover:bg-gray-700 text-white px-2 py-1 rounded border border-gray-700">
+              Merge
+            </button>
+            <button onClick={() => onGroupLayers(checked)} className="bg-gray-800 hover:bg-gray-700 text-white px-2 py-1 rounded border border-gray-700">
+              Group
+            </button>
+            <button onClick={() => onDeleteLayers(checked)} className="bg-gray-800 hover:bg-gray-700 text-red-400 px-2 py-1 rounded border border-gray-700">
+              Delete
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
-        {[...layers].reverse().map((layer) => ( // Reverse to show top layer first in list
-          <div 
-            key={layer.id}
-            onClick={() => onSelectLayer(layer.id)}
-            className={`
-              flex items-center p-2 rounded-lg cursor-pointer border transition-colors group
-              ${selectedLayerId === layer.id 
-                ? 'bg-brand-500/10 border-brand-500/50' 
-                : 'bg-gray-800/50 border-transparent hover:bg-gray-800'
-              }
-            `}
-          >
-            {/* Visibility Toggle */}
-            <button 
-              onClick={(e) => {
-                e.stopPropagation();
-                onToggleVisibility(layer.id);
-              }}
-              className={`mr-3 text-gray-500 hover:text-white ${!layer.visible && 'opacity-30'}`}
-            >
-              👁
-            </button>
-
-            {/* Thumbnail Preview */}
-            <div className="w-10 h-10 bg-gray-700 rounded overflow-hidden mr-3 shrink-0 relative checkerboard">
-               {thumbnails[layer.id] ? (
-                 <img src={thumbnails[layer.id]} className="w-full h-full object-contain" alt="" />
-               ) : (
-                 <div className="w-full h-full animate-pulse bg-gray-600" />
-               )}
-            </div>
-
-            {/* Info */}
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2">
-                <span className="text-xs">{getIcon(layer.type)}</span>
-                <p className={`text-sm font-medium truncate ${selectedLayerId === layer.id ? 'text-brand-400' : 'text-gray-200'}`}>
-                  {layer.label}
-                </p>
+        {runs.map(run => {
+          if (run.group === null) return renderLayer(run.layers[0], false);
+          const name = run.group;
+          const isCollapsed = collapsed.includes(name);
+          return (
+            <div key={`group-${name}-${run.layers[0].id}`} className="space-y-2">
+              <div
+                draggable={renaming?.id !== name}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragging({ ids: run.layers.map(l => l.id), group: name });
+                }}
+                onDragEnd={() => setDragging(null)}
+                {...dropHandlers(run.layers[0].id, name)}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded-lg bg-gray-850 text-sm text-gray-300 group ${dropTargetId === run.layers[0].id ? 'border-t-2 border-brand-500' : ''}`}
+              >
+                <button
+                  onClick={() => setCollapsed(prev => isCollapsed ? prev.filter(g => g !== name) : [...prev, name])}
+                  className="w-4 text-gray-500 hover:text-white"
+                >
+                  {isCollapsed ? '▸' : '▾'}
+                </button>
+                <span>📁</span>
+                <div className="flex-1 min-w-0">
+                  {renaming?.id === name && renaming.group ? renameInput : (
+                    <p className="truncate" title="Double-click to rename" onDoubleClick={() => startRename(name, name, true)}>
+                      {name}
+                    </p>
+                  )}
+                </div>
+                <span className="text-xs text-gray-600">{run.layers.length}</span>
+                <button
+                  onClick={() => onUngroup(name)}
+                  className="text-xs text-gray-500 hover:text-white px-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Ungroup"
+                >
+                  ⤴
+                </button>
               </div>
-              <p className="text-xs text-gray-500 truncate capitalize">
-                {layer.subtype || layer.type.toLowerCase()} • Z: {layer.zIndex}
-              </p>
+              {!isCollapsed && run.layers.map(layer => renderLayer(layer, true))}
             </div>
-
-            {/* Quick Actions */}
-            <button 
-              onClick={(e) => handleDownload(e, layer)}
-              className="ml-2 p-1.5 text-gray-500 hover:text-white hover:bg-gray-700 rounded opacity-0 group-hover:opacity-100 transition-opacity"
-              title="Download Crop"
-            >
-              ⬇
-            </button>
-          </div>
-        ))}
+          );
+        })}
       </div>
       
       {/* Footer / Legend */}
       <div className="p-3 border-t border-gray-800 text-xs text-gray-500 flex justify-between bg-gray-900">
         <span>Foreground</span>
+        <span className="text-gray-600">Drag to reorder · Ctrl-click to multi-select</span>
         <span>Background</span>
       </div>
     </div>
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import JSZip from 'jszip';
+import { ElementType, LayerData } from '../types';
+import { downloadBlob, downloadFile } from '../utils/imageProcessing';
+import { renderLocalizedThumbnail } from '../utils/localize';
+
+interface LocalizeViewProps {
+  originalImage: HTMLImageElement;
+  layers: LayerData[];
+  localizations: Record<string, Record<string, string>>;
+  onChange: (localizations: Record<string, Record<string, string>>) => void;
+  onClose: () => void;
+}
+
+// Locale codes like "de", "pt-BR" or "zh-Hant"
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+export const LocalizeView: React.FC<LocalizeViewProps> = ({ originalImage, layers, localizations, onChange, onClose }) => {
+  const textLayers = layers.filter(l => l.type === ElementType.TEXT).sort((a, b) => b.zIndex - a.zIndex);
+  const locales = Object.keys(localizations);
+  const [draftLocale, setDraftLocale] = useState('');
+  const [previewLocale, setPreviewLocale] = useState<string | null>(locales[0] ?? null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  // Re-render the preview shortly after typing stops; inpainting is not free
+  useEffect(() => {
+    if (!previewLocale || !localizations[previewLocale]) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setPreview(renderLocalizedThumbnail(originalImage, layers, localizations[previewLocale]).toDataURL('image/png'));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [previewLocale, localizations, layers, originalImage]);
+
+  const handleAddLocale = () => {
+    const locale = draftLocale.trim();
+    if (!LOCALE_PATTERN.test(locale) || locale in localizations) return;
+    onChange({ ...localizations, [locale]: {} });
+    setDraftLocale('');
+    setPreviewLocale(locale);
+  };
+
+  const handleRemoveLocale = (locale: string) => {
+    if (!confirm(`Remove the "${locale}" translations?`)) return;
+    const { [locale]: _removed, ...rest } = localizations;
+    onChange(rest);
+    if (previewLocale === locale) setPreviewLocale(Object.keys(rest)[0] ?? null);
+  };
+
+  const handleTranslate = (locale: string, layerId: string, value: string) => {
+    onChange({ ...localizations, [locale]: { ...localizations[locale], [layerId]: value } });
+  };
+
+  const handleDownloadAll = async () => {
+    setExporting(true);
+    try {
+      const zip = new JSZip();
+      locales.forEach(locale => {
+        const png = renderLocalizedThumbnail(originalImage, layers, localizations[locale]).toDataURL('image/png');
+        zip.file(`thumbnail_${locale}.png`, png.split(',')[1], { base64: true });
+      });
+      downloadBlob(await zip.generateAsync({ type: 'blob' }), 'thumbnail_localized.zip');
+    } catch (err) {
+      console.error("Localization Export Error:", err);
+      alert('Failed to export localized thumbnails');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-950">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800 bg-gray-900">
+        <div className="text-sm text-gray-400">
+          <span className="text-white font-medium">Localize</span> · {textLayers.length} text layers · {locales.length} locales
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            value={draftLocale}
+            onChange={(e) => setDraftLocale(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddLocale()}
+            placeholder="Locale, e.g. de or pt-BR"
+            className="w-44 bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white"
+          />
+          <button
+            onClick={handleAddLocale}
+            disabled={!LOCALE_PATTERN.test(draftLocale.trim()) || draftLocale.trim() in localizations}
+            className="bg-brand-600 hover:bg-brand-500 text-white px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            + Add Locale
+          </button>
+          <button
+            onClick={handleDownloadAll}
+            disabled={locales.length === 0 || exporting}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700 disabled:opacity-50"
+          >
+            {exporting ? 'Rendering...' : 'Download All'}
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-400 hover:text-white ml-2">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {textLayers.length === 0 ? (
+        <p className="text-center text-gray-500 mt-20">No text layers detected. Draw a TEXT box on the canvas to localize it.</p>
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          {/* Translation table */}
+          <div className="flex-1 overflow-auto p-6 custom-scrollbar">
+            <table className="text-sm border-separate border-spacing-2">
+              <thead>
+                <tr className="text-gray-500 text-xs">
+                  <th className="text-left font-normal w-56">Original</th>
+                  {locales.map(locale => (
+                    <th key={locale} className="text-left font-normal min-w-[12rem]">
+                      <div className="flex items-center justify-between">
+                        <button
+                          onClick={() => setPreviewLocale(locale)}
+                          className={previewLocale === locale ? 'text-brand-400 font-bold' : 'hover:text-white'}
+                        >
+                          {locale}
+                        </button>
+                        <button onClick={() => handleRemoveLocale(locale)} className="hover:text-red-400" title="Remove locale">
+                          ✕
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {textLayers.map(layer => (
+                  <tr key={layer.id} className="align-top">
+                    <td>
+                      <p className="text-gray-200 whitespace-pre-line">{layer.text?.content ?? layer.label}</p>
+                      <p className="text-[11px] text-gray-600">{layer.label}</p>
+                    </td>
+                    {locales.map(locale => (
+                      <td key={locale}>
+                        <textarea
+                          rows={2}
+                          value={localizations[locale][layer.id] ?? ''}
+                          onChange={(e) => handleTranslate(locale, layer.id, e.target.value)}
+                          onFocus={() => setPreviewLocale(locale)}
+                          placeholder="Keep original"
+                          className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white resize-y"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {locales.length === 0 && (
+              <p className="text-xs text-gray-500 mt-4 ml-2">Add a target locale to start translating.</p>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="w-[28rem] border-l border-gray-800 bg-gray-900 p-4 flex flex-col gap-3">
+            <h3 className="text-sm text-gray-500 font-bold tracking-wider">PREVIEW {previewLocale && `· ${previewLocale}`}</h3>
+            {preview ? (
+              <img src={preview} alt={`Preview ${previewLocale}`} className="w-full rounded-lg border border-gray-800" />
+            ) : (
+              <div className="aspect-video rounded-lg border border-dashed border-gray-700 flex items-center justify-center text-xs text-gray-600">
+                {previewLocale ? 'Rendering...' : 'No locale selected'}
+              </div>
+            )}
+            {preview && previewLocale && (
+              <button
+                onClick={() => downloadFile(preview, `thumbnail_${previewLocale}.png`)}
+                className="bg-brand-600 hover:bg-brand-500 text-white px-3 py-1.5 rounded-lg text-sm font-medium"
+              >
+                Download {previewLocale} PNG
+              </button>
+            )}
+            <p className="text-[11px] text-gray-600">
+              Original text is painted out from the surrounding pixels and redrawn with the detected fill, outline and rotation, shrunk to fit its box.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
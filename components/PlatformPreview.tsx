@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { PLATFORM_PRESETS, PlatformCheckSettings, PlatformId, renderPlatformPreview } from '../utils/platformCheck';
+
+interface PlatformPreviewProps {
+  originalImage: HTMLImageElement;
+  settings: PlatformCheckSettings;
+  onChange: (settings: PlatformCheckSettings) => void;
+}
+
+export const PlatformPreview: React.FC<PlatformPreviewProps> = ({ originalImage, settings, onChange }) => {
+  // Rendered at the screen's pixel ratio, shown at the real CSS size
+  const previews = useMemo(() => {
+    const ratio = window.devicePixelRatio || 1;
+    return settings.platforms.map(id => {
+      const preset = PLATFORM_PRESETS[id];
+      return {
+        preset,
+        sizes: preset.displayWidths.map(size => ({
+          ...size,
+          src: renderPlatformPreview(originalImage, preset, size.width, ratio).toDataURL('image/png'),
+        })),
+      };
+    });
+  }, [originalImage, settings.platforms]);
+
+  const togglePlatform = (id: PlatformId) => {
+    const platforms = settings.platforms.includes(id)
+      ? settings.platforms.filter(p => p !== id)
+      : [...settings.platforms, id];
+    onChange({ ...settings, platforms });
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-uppercase text-gray-500 font-bold tracking-wider mb-3">PLATFORM PREVIEW</h3>
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {Object.values(PLATFORM_PRESETS).map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => togglePlatform(preset.id)}
+            className={`px-2 py-1 rounded text-xs border ${settings.platforms.includes(preset.id) ? 'bg-brand-900/50 border-brand-700 text-brand-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      <details className="mb-3 text-xs text-gray-400">
+        <summary className="cursor-pointer text-gray-500">Thresholds</summary>
+        <div className="mt-2 space-y-2">
+          <label className="flex items-center justify-between gap-3">
+            Min. text height (px)
+            <input
+              type="number" min={4} max={32} value={settings.minTextHeight}
+              onChange={(e) => onChange({ ...settings, minTextHeight: Number(e.target.value) || settings.minTextHeight })}
+              className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-white"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            Min. contrast ratio
+            <input
+              type="number" min={1} max={21} step={0.5} value={settings.minContrast}
+              onChange={(e) => onChange({ ...settings, minContrast: Number(e.target.value) || settings.minContrast })}
+              className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-white"
+            />
+          </label>
+        </div>
+      </details>
+
+      {previews.length === 0 && (
+        <p className="text-xs text-gray-500">Pick a platform to preview the thumbnail at its display sizes.</p>
+      )}
+      <div className="space-y-4">
+        {previews.map(({ preset, sizes }) => (
+          <div key={preset.id}>
+            <div className="text-xs text-gray-400 mb-1.5">{preset.name}</div>
+            <div className="flex items-end gap-3 overflow-x-auto custom-scrollbar pb-2">
+              {sizes.map(size => (
+                <figure key={size.label} className="shrink-0">
+                  <img
+                    src={size.src}
+                    alt={`${preset.name} ${size.label}`}
+                    style={{ width: size.width }}
+                    className="block rounded-md border border-gray-800"
+                  />
+                  <figcaption className="text-[10px] text-gray-500 mt-1">{size.label} · {size.width}px</figcaption>
+                </figure>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { StoredProject } from '../types';
+import { deleteProject, duplicateProject, listProjects, renameProject } from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  onOpen: (project: StoredProject) => void;
+  onCompare: (projects: StoredProject[]) => void;
+}
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen, onCompare }) => {
+  const [projects, setProjects] = useState<StoredProject[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const refresh = () => {
+    listProjects()
+      .then(list => {
+        setProjects(list);
+        setLoaded(true);
+        setError(null);
+      })
+      .catch((err: any) => setError(err.message || 'Project library unavailable'));
+  };
+
+  useEffect(refresh, []);
+
+  // Storage can fail (quota, private mode); the message stays above the grid until the next success
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (err: any) {
+      console.error("Project Library Error:", err);
+      setError(err.message || fallback);
+      return;
+    }
+    refresh();
+  };
+
+  const handleRename = async (id: string) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (!name) return;
+    await runAction(() => renameProject(id, name), 'Could not rename the project');
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await runAction(() => duplicateProject(id), 'Could not duplicate the project');
+  };
+
+  const handleDelete = async (project: StoredProject) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await runAction(async () => {
+      await deleteProject(project.id);
+      setSelectedIds(prev => prev.filter(id => id !== project.id));
+    }, 'Could not delete the project');
+  };
+
+  // Only a library that never loaded is replaced by the message
+  if (error && !loaded) {
+    return <p className="text-xs text-center text-gray-600 mt-8">{error}</p>;
+  }
+  if (projects.length === 0) return null;
+
+  return (
+    <section className="mt-12">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm text-gray-500 font-bold tracking-wider">RECENT PROJECTS</h3>
+        {selectedIds.length >= 2 && (
+          <button
+            onClick={() => onCompare(projects.filter(p => selectedIds.includes(p.id)))}
+            className="bg-brand-600 hover:bg-brand-500 text-white px-3 py-1 rounded-lg text-xs font-medium"
+          >
+            Compare {selectedIds.length} Selected
+          </button>
+        )}
+      </div>
+      {error && (
+        <div className="mb-4 flex items-center justify-between gap-3 bg-red-900/20 border border-red-900/50 text-red-300 rounded-lg px-3 py-2 text-xs">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="text-red-300 hover:text-white">Dismiss</button>
+        </div>
+      )}
+      <div className="grid grid-cols-3 gap-4">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            className={`bg-gray-900 rounded-lg border overflow-hidden group ${selectedIds.includes(project.id) ? 'border-brand-500' : 'border-gray-800'}`}
+          >
+            <div className="relative">
+              <button onClick={() => onOpen(project)} className="block w-full aspect-video bg-gray-800">
+                <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover group-hover:opacity-80 transition-opacity" />
+              </button>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(project.id)}
+                onChange={() => toggleSelected(project.id)}
+                title="Select for comparison"
+                className={`absolute top-2 left-2 ${selectedIds.includes(project.id) ? '' : 'opacity-0 group-hover:opacity-100'}`}
+              />
+            </div>
+            <div className="p-2">
+              {renamingId === project.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => handleRename(project.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(project.id);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full bg-gray-800 border border-gray-700 rounded px-1 text-sm text-white"
+                />
+              ) : (
+                <p
+                  className="text-sm text-gray-200 truncate cursor-text"
+                  title="Double-click to rename"
+                  onDoubleClick={() => {
+                    setRenamingId(project.id);
+                    setDraftName(project.name);
+                  }}
+                >
+                  {project.name}
+                </p>
+              )}
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-[11px] text-gray-600">{new Date(project.updatedAt).toLocaleString()}</span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => {
+                      setRenamingId(project.id);
+                      setDraftName(project.name);
+                    }}
+                    className="text-xs text-gray-500 hover:text-white px-1"
+                    title="Rename"
+                  >
+                    ✎
+                  </button>
+                  <button onClick={() => handleDuplicate(project.id)} className="text-xs text-gray-500 hover:text-white px-1" title="Duplicate">
+                    ⧉
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="text-xs text-gray-500 hover:text-red-400 px-1" title="Delete">
+                    🗑
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,506 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BlendMode, CompositionAnalysis, CompositionDocument, CompositionItem, ItemEffects, LayerData } from '../types';
+import { PixelStats, scoreComposition } from '../utils/compositionMetrics';
+import { downloadFile } from '../utils/imageProcessing';
+import {
+  BLEND_MODES,
+  EXPORT_SIZES,
+  createComposition,
+  createLayerItem,
+  createTextItem,
+  hitTestItem,
+  renderComposition,
+  resizeComposition
+} from '../utils/compose';
+import { ScoreTile } from './ScoreTile';
+
+interface RecomposeViewProps {
+  originalImage: HTMLImageElement;
+  layers: LayerData[];
+  composition: CompositionDocument;
+  pixelStats: PixelStats | null;
+  baselineAnalysis: CompositionAnalysis | null; // Scores of the original layout, for the deltas
+  onChange: (composition: CompositionDocument) => void;
+  onClose: () => void;
+}
+
+interface DragState {
+  action: 'move' | 'scale' | 'rotate';
+  itemId: string;
+  origin: { x: number; y: number };
+  start: CompositionItem;
+}
+
+// Edits are pushed to the project after this long without changes
+const COMMIT_DELAY = 400;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex items-center justify-between gap-3 text-xs text-gray-400">
+    <span className="shrink-0">{label}</span>
+    {children}
+  </label>
+);
+
+export const RecomposeView: React.FC<RecomposeViewProps> = ({ originalImage, layers, composition, pixelStats, baselineAnalysis, onChange, onClose }) => {
+  const [doc, setDoc] = useState(composition);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [exportSize, setExportSize] = useState(0);
+  const [exporting, setExporting] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sources = useRef<Map<string, HTMLCanvasElement>>(new Map());
+  const renderToken = useRef(0);
+  const commitTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latest = useRef(doc);
+
+  const selected = doc.items.find(i => i.id === selectedId) ?? null;
+  const scores = useMemo(() => pixelStats && scoreComposition(pixelStats, layers, doc), [pixelStats, layers, doc]);
+
+  // Redraw the preview; only the newest render is shown
+  useEffect(() => {
+    const token = ++renderToken.current;
+    renderComposition(originalImage, layers, doc, doc.width, doc.height, sources.current)
+      .then(rendered => {
+        const canvas = canvasRef.current;
+        if (token !== renderToken.current || !canvas) return;
+        canvas.width = rendered.width;
+        canvas.height = rendered.height;
+        canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+      })
+      .catch(err => console.error("Composition Render Error:", err));
+  }, [doc, layers, originalImage]);
+
+  // Push pending edits when the view closes
+  useEffect(() => () => {
+    if (commitTimer.current) {
+      clearTimeout(commitTimer.current);
+      onChange(latest.current);
+    }
+  }, []);
+
+  const update = (next: CompositionDocument) => {
+    setDoc(next);
+    latest.current = next;
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+    commitTimer.current = setTimeout(() => {
+      commitTimer.current = null;
+      onChange(next);
+    }, COMMIT_DELAY);
+  };
+
+  const updateItem = (id: string, patch: Partial<CompositionItem>) => {
+    update({ ...doc, items: doc.items.map(i => i.id === id ? { ...i, ...patch } : i) });
+  };
+
+  const updateEffects = (item: CompositionItem, patch: Partial<ItemEffects>) => {
+    updateItem(item.id, { effects: { ...item.effects, ...patch } });
+  };
+
+  const moveItem = (id: string, direction: 1 | -1) => {
+    const index = doc.items.findIndex(i => i.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= doc.items.length) return;
+    const items = [...doc.items];
+    [items[index], items[target]] = [items[target], items[index]];
+    update({ ...doc, items });
+  };
+
+  const removeItem = (id: string) => {
+    update({ ...doc, items: doc.items.filter(i => i.id !== id) });
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const addItem = (item: CompositionItem) => {
+    update({ ...doc, items: [...doc.items, item] });
+    setSelectedId(item.id);
+  };
+
+  const handleReset = () => {
+    if (!confirm('Discard this layout and start again from the original?')) return;
+    update(createComposition(originalImage, layers, doc.width, doc.height));
+    setSelectedId(null);
+  };
+
+  const handleExport = async () => {
+    const size = EXPORT_SIZES[exportSize];
+    setExporting(true);
+    try {
+      const rendered = await renderComposition(originalImage, layers, doc, size.width, size.height, sources.current);
+      downloadFile(rendered.toDataURL('image/png'), `thumbnail_${size.width}x${size.height}.png`);
+    } catch (err) {
+      console.error("Composition Export Error:", err);
+      alert('Failed to export the composition');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Pointer position in composition pixels
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * doc.width,
+      y: ((e.clientY - rect.top) / rect.height) * doc.height,
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, action: DragState['action'], item: CompositionItem) => {
+    if (!stageRef.current) return;
+    e.stopPropagation();
+    e.preventDefault();
+    stageRef.current.setPointerCapture(e.pointerId);
+    setSelectedId(item.id);
+    setDrag({ action, itemId: item.id, origin: toPoint(e), start: item });
+  };
+
+  const handleStagePointerDown = (e: React.PointerEvent) => {
+    if (!stageRef.current) return;
+    const point = toPoint(e);
+    const hit = [...doc.items].reverse().find(i => i.visible && hitTestItem(i, point.x, point.y));
+    if (hit) startDrag(e, 'move', hit);
+    else setSelectedId(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toPoint(e);
+    const { start } = drag;
+
+    if (drag.action === 'move') {
+      updateItem(drag.itemId, { x: start.x + point.x - drag.origin.x, y: start.y + point.y - drag.origin.y });
+    } else if (drag.action === 'scale') {
+      const from = Math.hypot(drag.origin.x - start.x, drag.origin.y - start.y);
+      const to = Math.hypot(point.x - start.x, point.y - start.y);
+      if (from > 0) updateItem(drag.itemId, { scale: Math.max(0.05, start.scale * (to / from)) });
+    } else {
+      // The handle sits above the item, so straight up is 0°; Shift snaps to 15° steps
+      let rotation = (Math.atan2(point.y - start.y, point.x - start.x) * 180) / Math.PI + 90;
+      if (rotation > 180) rotation -= 360;
+      if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+      updateItem(drag.itemId, { rotation: Math.round(rotation) });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag) return;
+    stageRef.current?.releasePointerCapture(e.pointerId);
+    setDrag(null);
+  };
+
+  const sizeIndex = EXPORT_SIZES.findIndex(s => s.width === doc.width && s.height === doc.height);
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-950">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800 bg-gray-900">
+        <div className="text-sm text-gray-400">
+          <span className="text-white font-medium">Recompose</span> · {doc.items.length} items · {doc.width}×{doc.height}
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={exportSize}
+            onChange={(e) => setExportSize(Number(e.target.value))}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white"
+          >
+            {EXPORT_SIZES.map((size, i) => (
+              <option key={size.label} value={i}>{size.label} · {size.width}×{size.height}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="bg-brand-600 hover:bg-brand-500 text-white px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            {exporting ? 'Rendering...' : 'Export PNG'}
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-400 hover:text-white ml-2">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Stage */}
+        <div className="flex-1 flex items-center justify-center p-6 min-w-0">
+          <div
+            ref={stageRef}
+            className="relative shadow-2xl select-none"
+            style={{ touchAction: 'none' }}
+            onPointerDown={handleStagePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <canvas
+              ref={canvasRef}
+              width={doc.width}
+              height={doc.height}
+              className="block max-w-full max-h-[75vh] cursor-move"
+            />
+            {selected && selected.visible && (
+              <div
+                className="absolute border-2 border-brand-500 pointer-events-none"
+                style={{
+                  left: `${((selected.x - (selected.width * selected.scale) / 2) / doc.width) * 100}%`,
+                  top: `${((selected.y - (selected.height * selected.scale) / 2) / doc.height) * 100}%`,
+                  width: `${((selected.width * selected.scale) / doc.width) * 100}%`,
+                  height: `${((selected.height * selected.scale) / doc.height) * 100}%`,
+                  transform: `rotate(${selected.rotation}deg)`,
+                }}
+              >
+                <div
+                  onPointerDown={(e) => startDrag(e, 'rotate', selected)}
+                  className="absolute left-1/2 -top-7 w-3.5 h-3.5 -ml-[7px] bg-white border-2 border-brand-500 rounded-full cursor-grab pointer-events-auto"
+                  title="Rotate (Shift snaps to 15°)"
+                />
+                <div
+                  onPointerDown={(e) => startDrag(e, 'scale', selected)}
+                  className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border-2 border-brand-500 rounded-sm cursor-nwse-resize pointer-events-auto"
+                  title="Scale"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="w-80 border-l border-gray-800 bg-gray-900 flex flex-col min-h-0">
+          {scores && (
+            <div className="p-4 border-b border-gray-800 grid grid-cols-2 gap-2">
+              <ScoreTile compact label="Rule of Thirds" value={scores.ruleOfThirdsScore} baseline={baselineAnalysis?.ruleOfThirdsScore} />
+              <ScoreTile compact label="Balance" value={scores.visualBalanceScore} baseline={baselineAnalysis?.visualBalanceScore} />
+            </div>
+          )}
+          <div className="p-4 border-b border-gray-800 space-y-2">
+            <h3 className="text-xs text-gray-500 font-bold tracking-wider">CANVAS</h3>
+            <Field label="Size">
+              <select
+                value={sizeIndex}
+                onChange={(e) => {
+                  const size = EXPORT_SIZES[Number(e.target.value)];
+                  if (size) update(resizeComposition(doc, size.width, size.height));
+                }}
+                className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+              >
+                {sizeIndex < 0 && <option value={-1}>Custom · {doc.width}×{doc.height}</option>}
+                {EXPORT_SIZES.map((size, i) => (
+                  <option key={size.label} value={i}>{size.label} · {size.width}×{size.height}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Background">
+              <input type="color" value={doc.background} onChange={(e) => update({ ...doc, background: e.target.value })} />
+            </Field>
+            <div className="flex gap-2 pt-1">
+              <select
+                value=""
+                onChange={(e) => {
+                  const layer = layers.find(l => l.id === e.target.value);
+                  if (layer) addItem(createLayerItem(originalImage, layer, doc));
+                }}
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+              >
+                <option value="" disabled>+ Add layer…</option>
+                {layers.map(layer => <option key={layer.id} value={layer.id}>{layer.label}</option>)}
+              </select>
+              <button
+                onClick={() => addItem(createTextItem(doc))}
+                className="bg-gray-800 hover:bg-gray-700 border border-gray-700 text-white rounded px-2 py-1 text-xs"
+              >
+                + Text
+              </button>
+              <button onClick={handleReset} className="text-xs text-gray-500 hover:text-white px-1">
+                Reset
+              </button>
+            </div>
+          </div>
+
+          {/* Items, top of the stack first */}
+          <div className="max-h-56 overflow-y-auto custom-scrollbar border-b border-gray-800 py-1">
+            {[...doc.items].reverse().map(item => (
+              <div
+                key={item.id}
+                onClick={() => setSelectedId(item.id)}
+                className={`flex items-center gap-2 px-4 py-1.5 text-xs cursor-pointer ${item.id === selectedId ? 'bg-brand-900/40 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+              >
+                <button
+                  onClick={(e) => { e.stopPropagation(); updateItem(item.id, { visible: !item.visible }); }}
+                  className={item.visible ? 'text-gray-300' : 'text-gray-600'}
+                  title={item.visible ? 'Hide' : 'Show'}
+                >
+                  {item.visible ? '●' : '○'}
+                </button>
+                <span className="flex-1 truncate">{item.text ? `T · ${item.text.content}` : item.label}</span>
+                <button onClick={(e) => { e.stopPropagation(); moveItem(item.id, 1); }} className="hover:text-white" title="Bring forward">↑</button>
+                <button onClick={(e) => { e.stopPropagation(); moveItem(item.id, -1); }} className="hover:text-white" title="Send backward">↓</button>
+                <button onClick={(e) => { e.stopPropagation(); removeItem(item.id); }} className="hover:text-red-400" title="Remove">✕</button>
+              </div>
+            ))}
+          </div>
+
+          {/* Properties */}
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+            {!selected ? (
+              <p className="text-xs text-gray-500">Select an item on the canvas to move, scale, rotate and style it.</p>
+            ) : (
+              <>
+                {selected.text && (
+                  <div className="space-y-2">
+                    <h3 className="text-xs text-gray-500 font-bold tracking-wider">TEXT</h3>
+                    <textarea
+                      rows={2}
+                      value={selected.text.content}
+                      onChange={(e) => updateItem(selected.id, { text: { ...selected.text!, content: e.target.value }, label: e.target.value })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white resize-y"
+                    />
+                    <Field label="Fill">
+                      <input type="color" value={selected.text.fill} onChange={(e) => updateItem(selected.id, { text: { ...selected.text!, fill: e.target.value } })} />
+                    </Field>
+                    <Field label="Size">
+                      <input
+                        type="range" min={12} max={Math.round(doc.height / 2)} value={selected.text.fontSize}
+                        onChange={(e) => updateItem(selected.id, { text: { ...selected.text!, fontSize: Number(e.target.value) } })}
+                      />
+                    </Field>
+                    <Field label="Weight">
+                      <select
+                        value={selected.text.fontWeight}
+                        onChange={(e) => updateItem(selected.id, { text: { ...selected.text!, fontWeight: Number(e.target.value) } })}
+                        className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+                      >
+                        {[400, 600, 700, 900].map(w => <option key={w} value={w}>{w}</option>)}
+                      </select>
+                    </Field>
+                    <Field label="Outline">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color" value={selected.text.stroke?.color ?? '#000000'}
+                          onChange={(e) => updateItem(selected.id, { text: { ...selected.text!, stroke: { width: selected.text!.stroke?.width ?? 4, color: e.target.value } } })}
+                        />
+                        <input
+                          type="range" min={0} max={24} value={selected.text.stroke?.width ?? 0}
+                          onChange={(e) => {
+                            const width = Number(e.target.value);
+                            updateItem(selected.id, { text: { ...selected.text!, stroke: width > 0 ? { color: selected.text!.stroke?.color ?? '#000000', width } : null } });
+                          }}
+                          className="w-24"
+                        />
+                      </div>
+                    </Field>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <h3 className="text-xs text-gray-500 font-bold tracking-wider">TRANSFORM</h3>
+                  <Field label={`Scale ${Math.round(selected.scale * 100)}%`}>
+                    <input
+                      type="range" min={5} max={400} value={Math.round(selected.scale * 100)}
+                      onChange={(e) => updateItem(selected.id, { scale: Number(e.target.value) / 100 })}
+                    />
+                  </Field>
+                  <Field label={`Rotate ${selected.rotation}°`}>
+                    <input
+                      type="range" min={-180} max={180} value={selected.rotation}
+                      onChange={(e) => updateItem(selected.id, { rotation: Number(e.target.value) })}
+                    />
+                  </Field>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => updateItem(selected.id, { flipX: !selected.flipX })}
+                      className={`flex-1 rounded px-2 py-1 text-xs border ${selected.flipX ? 'bg-brand-900/50 border-brand-700 text-brand-300' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+                    >
+                      ⇋ Flip H
+                    </button>
+                    <button
+                      onClick={() => updateItem(selected.id, { flipY: !selected.flipY })}
+                      className={`flex-1 rounded px-2 py-1 text-xs border ${selected.flipY ? 'bg-brand-900/50 border-brand-700 text-brand-300' : 'bg-gray-800 border-gray-700 text-gray-300'}`}
+                    >
+                      ⇅ Flip V
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-xs text-gray-500 font-bold tracking-wider">BLENDING</h3>
+                  <Field label={`Opacity ${Math.round(selected.opacity * 100)}%`}>
+                    <input
+                      type="range" min={0} max={100} value={Math.round(selected.opacity * 100)}
+                      onChange={(e) => updateItem(selected.id, { opacity: Number(e.target.value) / 100 })}
+                    />
+                  </Field>
+                  <Field label="Mode">
+                    <select
+                      value={selected.blendMode}
+                      onChange={(e) => updateItem(selected.id, { blendMode: e.target.value as BlendMode })}
+                      className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+                    >
+                      {BLEND_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                    </select>
+                  </Field>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-xs text-gray-500 font-bold tracking-wider">EFFECTS</h3>
+                  <Field label="Drop shadow">
+                    <input
+                      type="checkbox" checked={Boolean(selected.effects.shadow)}
+                      onChange={(e) => updateEffects(selected, { shadow: e.target.checked ? { color: '#000000', blur: 16, offsetX: 6, offsetY: 6 } : null })}
+                    />
+                  </Field>
+                  {selected.effects.shadow && (
+                    <div className="pl-3 space-y-2">
+                      <Field label="Color">
+                        <input type="color" value={selected.effects.shadow.color} onChange={(e) => updateEffects(selected, { shadow: { ...selected.effects.shadow!, color: e.target.value } })} />
+                      </Field>
+                      <Field label="Blur">
+                        <input type="range" min={0} max={60} value={selected.effects.shadow.blur} onChange={(e) => updateEffects(selected, { shadow: { ...selected.effects.shadow!, blur: Number(e.target.value) } })} />
+                      </Field>
+                      <Field label="Distance">
+                        <input
+                          type="range" min={0} max={40} value={selected.effects.shadow.offsetX}
+                          onChange={(e) => updateEffects(selected, { shadow: { ...selected.effects.shadow!, offsetX: Number(e.target.value), offsetY: Number(e.target.value) } })}
+                        />
+                      </Field>
+                    </div>
+                  )}
+                  <Field label="Outline">
+                    <input
+                      type="checkbox" checked={Boolean(selected.effects.stroke)}
+                      onChange={(e) => updateEffects(selected, { stroke: e.target.checked ? { color: '#ffffff', width: 8 } : null })}
+                    />
+                  </Field>
+                  {selected.effects.stroke && (
+                    <div className="pl-3 space-y-2">
+                      <Field label="Color">
+                        <input type="color" value={selected.effects.stroke.color} onChange={(e) => updateEffects(selected, { stroke: { ...selected.effects.stroke!, color: e.target.value } })} />
+                      </Field>
+                      <Field label="Width">
+                        <input type="range" min={1} max={30} value={selected.effects.stroke.width} onChange={(e) => updateEffects(selected, { stroke: { ...selected.effects.stroke!, width: Number(e.target.value) } })} />
+                      </Field>
+                    </div>
+                  )}
+                  <Field label="Glow">
+                    <input
+                      type="checkbox" checked={Boolean(selected.effects.glow)}
+                      onChange={(e) => updateEffects(selected, { glow: e.target.checked ? { color: '#facc15', blur: 20 } : null })}
+                    />
+                  </Field>
+                  {selected.effects.glow && (
+                    <div className="pl-3 space-y-2">
+                      <Field label="Color">
+                        <input type="color" value={selected.effects.glow.color} onChange={(e) => updateEffects(selected, { glow: { ...selected.effects.glow!, color: e.target.value } })} />
+                      </Field>
+                      <Field label="Size">
+                        <input type="range" min={2} max={60} value={selected.effects.glow.blur} onChange={(e) => updateEffects(selected, { glow: { ...selected.effects.glow!, blur: Number(e.target.value) } })} />
+                      </Field>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ScoreTileProps {
+  label: string;
+  value: number;
+  baseline?: number | null; // Score of the original layout; the tile shows the change against it
+  note?: React.ReactNode;
+  compact?: boolean;
+}
+
+const TWEEN_MS = 400;
+
+// Eases the displayed number towards `value` instead of jumping
+const useAnimatedNumber = (value: number) => {
+  const [display, setDisplay] = useState(value);
+  const from = useRef(value);
+
+  useEffect(() => {
+    const start = performance.now();
+    const origin = from.current;
+    let frame = 0;
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / TWEEN_MS);
+      const eased = 1 - Math.pow(1 - t, 3);
+      const current = origin + (value - origin) * eased;
+      from.current = current;
+      setDisplay(current);
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [value]);
+
+  return Math.round(display);
+};
+
+export const ScoreTile: React.FC<ScoreTileProps> = ({ label, value, baseline, note, compact }) => {
+  const display = useAnimatedNumber(value);
+  // Follows the tween so the badge counts along with the score
+  const delta = baseline == null ? 0 : display - baseline;
+
+  return (
+    <div className={`bg-gray-850 rounded-lg border border-gray-800 text-center ${compact ? 'px-3 py-2' : 'p-4'}`}>
+      <div className="flex items-baseline justify-center gap-2">
+        <span className={`font-bold text-white ${compact ? 'text-xl' : 'text-3xl mb-1'}`}>{display}</span>
+        {delta !== 0 && (
+          <span
+            className={`text-xs font-semibold transition-colors ${delta > 0 ? 'text-emerald-400' : 'text-red-400'}`}
+            title={`Original: ${baseline}`}
+          >
+            {delta > 0 ? '▲' : '▼'} {Math.abs(delta)}
+          </span>
+        )}
+      </div>
+      <div className="text-xs text-gray-500">{label}</div>
+      {note && <div className="text-[11px] text-gray-500 mt-1">{note}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings } from '../services/analysisProvider';
+import { PROVIDERS, defaultSettings } from '../services/analysisService';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const provider = PROVIDERS[draft.providerId];
+
+  const handleProviderChange = (providerId: ProviderId) => {
+    // Keep the key when staying on the same provider, otherwise start from its defaults
+    setDraft(providerId === settings.providerId ? settings : defaultSettings(providerId));
+  };
+
+  const inputClass = "w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-brand-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-bold text-white">Analysis Provider</h2>
+
+        <label className="block">
+          <span className="text-xs text-gray-500 font-bold tracking-wider">PROVIDER</span>
+          <select
+            value={draft.providerId}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+            className={`${inputClass} mt-1`}
+          >
+            {Object.values(PROVIDERS).map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </label>
+
+        {draft.providerId !== 'mock' && (
+          <label className="block">
+            <span className="text-xs text-gray-500 font-bold tracking-wider">MODEL</span>
+            <input
+              value={draft.model}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              placeholder={provider.defaultModel}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        )}
+
+        {provider.defaultEndpoint && (
+          <label className="block">
+            <span className="text-xs text-gray-500 font-bold tracking-wider">ENDPOINT</span>
+            <input
+              value={draft.endpoint}
+              onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })}
+              placeholder={provider.defaultEndpoint}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        )}
+
+        {provider.needsApiKey && (
+          <label className="block">
+            <span className="text-xs text-gray-500 font-bold tracking-wider">API KEY</span>
+            <input
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+              placeholder={draft.providerId === 'gemini' ? 'Uses API_KEY from the environment if empty' : 'Optional for a custom endpoint'}
+              className={`${inputClass} mt-1`}
+            />
+            <span className="text-[11px] text-gray-600">Stored in this browser only.</span>
+          </label>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg text-sm font-medium"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
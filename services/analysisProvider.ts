@@ -0,0 +1,201 @@
+import { ImagePayload } from "../utils/imageInput";
+
+export type ProviderId = "gemini" | "openai" | "ollama" | "mock";
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  model: string;
+  endpoint: string;
+  apiKey: string;
+}
+
+// What a request asks for; selects the output schema / format instructions
+export type PromptTask = "analysis" | "text" | "face";
+
+export interface RequestOptions {
+  task?: PromptTask; // Defaults to "analysis"
+  signal?: AbortSignal;
+  onText?: (textSoFar: string) => void; // Called as streamed output accumulates
+}
+
+/**
+ * A vision backend able to deconstruct a thumbnail. Providers only return the
+ * raw model text; parsing, validation and repair are shared (see analysisService)
+ * so every backend resolves to the same ProcessingResult contract.
+ */
+export interface AnalysisProvider {
+  id: ProviderId;
+  name: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  needsApiKey: boolean;
+  acceptedTypes: string[]; // Image MIME types the backend decodes; others are converted before upload
+  request: (image: ImagePayload, settings: ProviderSettings, prompt: string, options?: RequestOptions) => Promise<string>;
+}
+
+// Sampling temperature shared by every model-backed provider; low for repeatable boxes
+export const ANALYSIS_TEMPERATURE = 0.2;
+
+export const ANALYSIS_PROMPT = `
+    You are a professional graphic design AI tool named "Thumbnail Separator".
+
+    Task: Deconstruct this YouTube/Gaming thumbnail into constituent visual layers.
+
+    1. Detect every distinct element: People (primary, secondary), Text blocks, Objects, Logos, Backgrounds, Effects.
+    2. Provide a precise bounding box for each element.
+    3. Estimate the Z-index (stacking order) to separate foreground from background.
+    4. Analyze the composition rules and provide critique.
+
+    Return strict JSON matching the schema.
+    For bounding boxes, use a scale of 0 to 1000.
+  `;
+
+export const TEXT_PROMPT = `
+    This image is a crop of a single text block from a YouTube/Gaming thumbnail.
+
+    Task: Read the text exactly as written (keep line breaks as \\n and original casing)
+    and describe its typography: weight, fill color, outline (stroke) color if any,
+    rotation in degrees (clockwise, 0 when horizontal), the closest common font family,
+    and the number of lines.
+
+    Return strict JSON matching the schema.
+  `;
+
+export const FACE_PROMPT = `
+    This image is a crop of a single person from a YouTube/Gaming thumbnail.
+
+    Task: Find the person's face and describe it: its bounding box within this crop,
+    where the eyes are looking (at the camera, or left/right/up/down/away as seen by the viewer),
+    and the dominant facial expression with your confidence in it.
+    Set "found" to false when no face is visible (back of the head, mask, fully cropped).
+
+    Return strict JSON matching the schema.
+    For the bounding box, use a scale of 0 to 1000 relative to this crop.
+  `;
+
+// Providers without structured-output support get the schema spelled out in the prompt
+export const JSON_FORMAT_INSTRUCTIONS = `
+    Respond with a single JSON object and nothing else, in this exact shape:
+    {
+      "layers": [{
+        "label": string, "type": "PERSON" | "OBJECT" | "TEXT" | "LOGO" | "BACKGROUND" | "EFFECT",
+        "subtype": string, "confidence": number (0-1),
+        "ymin": number, "xmin": number, "ymax": number, "xmax": number (0-1000),
+        "zIndex": integer (1 is background, 10 is foreground), "dominantColor": hex string
+      }],
+      "analysis": {
+        "ruleOfThirdsScore": number (0-100), "visualBalanceScore": number (0-100),
+        "dominantColors": hex string[], "brightnessMap": string, "contrastLevel": "Low" | "Medium" | "High",
+        "suggestions": string[] (3-5 items), "eyeContact": boolean,
+        "weightCenterX": number (0-100), "weightCenterY": number (0-100)
+      }
+    }
+  `;
+
+export const TEXT_FORMAT_INSTRUCTIONS = `
+    Respond with a single JSON object and nothing else, in this exact shape:
+    {
+      "content": string, "fontWeight": number (400-900), "fontFamily": string,
+      "fill": hex string, "stroke": hex string or null, "rotation": number, "lineCount": integer
+    }
+  `;
+
+export const FACE_FORMAT_INSTRUCTIONS = `
+    Respond with a single JSON object and nothing else, in this exact shape:
+    {
+      "found": boolean, "ymin": number, "xmin": number, "ymax": number, "xmax": number (0-1000),
+      "gaze": "camera" | "left" | "right" | "up" | "down" | "away",
+      "emotion": "joy" | "surprise" | "anger" | "fear" | "sadness" | "disgust" | "neutral",
+      "emotionConfidence": number (0-1)
+    }
+  `;
+
+export const FORMAT_INSTRUCTIONS: Record<PromptTask, string> = {
+  analysis: JSON_FORMAT_INSTRUCTIONS,
+  text: TEXT_FORMAT_INSTRUCTIONS,
+  face: FACE_FORMAT_INSTRUCTIONS,
+};
+
+/**
+ * Some local models wrap JSON in markdown fences or chatter; pull out the object.
+ */
+export const extractJson = (text: string): unknown => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) throw new Error("No JSON object in AI response");
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+/**
+ * Pulls the layer objects that are already complete out of a JSON answer that
+ * is still streaming in, so they can be previewed before the response ends.
+ */
+export const extractPartialLayers = (text: string): unknown[] => {
+  const key = text.indexOf('"layers"');
+  const open = key === -1 ? -1 : text.indexOf("[", key);
+  if (open === -1) return [];
+
+  const layers: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = open + 1; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        try {
+          layers.push(JSON.parse(text.slice(start, i + 1)));
+        } catch {
+          // Skip fragments that only looked complete
+        }
+      }
+    } else if (char === "]" && depth === 0) {
+      break;
+    }
+  }
+  return layers;
+};
+
+/**
+ * Feeds each line of a streamed response body to `onLine` (SSE and NDJSON).
+ */
+export const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) throw new Error("Response has no body to stream");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+    lines.filter(line => line.trim()).forEach(onLine);
+    if (done) break;
+  }
+};
+
+/**
+ * Follow-up prompt asking the model to fix its own malformed JSON.
+ */
+export const buildRepairPrompt = (previous: string, error: string) => `
+    Your previous answer could not be parsed as JSON (${error}).
+    Here it is, between the markers:
+    <<<
+    ${previous.slice(0, 20000)}
+    >>>
+    Return ONLY the corrected JSON object with the same content, valid syntax, and the same schema.
+  `;
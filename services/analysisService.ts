@@ -0,0 +1,235 @@
+import { AnalysisProgress, AnalysisProvenance, FaceAttributes, LayerData, ProcessingResult, TextAttributes } from "../types";
+import { AnalysisProvider, ANALYSIS_PROMPT, ANALYSIS_TEMPERATURE, FACE_PROMPT, ProviderId, ProviderSettings, TEXT_PROMPT, buildRepairPrompt, extractJson, extractPartialLayers } from "./analysisProvider";
+import { validateFaceAttributes, validateLayers, validateRawResult, validateTextAttributes } from "./validation";
+import { geminiProvider } from "./geminiService";
+import { openaiProvider } from "./openaiService";
+import { ollamaProvider } from "./ollamaService";
+import { mockProvider } from "./mockService";
+import { buildLocalResult } from "../utils/compositionMetrics";
+import { clampBox, cropLayer, loadImage } from "../utils/imageProcessing";
+import { estimateTextStyle } from "../utils/textStyle";
+import { estimateFace } from "../utils/faces";
+import { ImagePayload, buildUploadPayload } from "../utils/imageInput";
+
+export const PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+};
+
+const SETTINGS_KEY = "thumbnail-separator.provider";
+
+// Extra round-trips allowed when the model answers with malformed JSON
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export const defaultSettings = (providerId: ProviderId = "gemini"): ProviderSettings => ({
+  providerId,
+  model: PROVIDERS[providerId].defaultModel,
+  endpoint: PROVIDERS[providerId].defaultEndpoint,
+  apiKey: "",
+});
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (stored && stored.providerId in PROVIDERS) {
+      return { ...defaultSettings(stored.providerId), ...stored };
+    }
+  } catch {
+    // Corrupt settings fall through to defaults
+  }
+  return defaultSettings();
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/**
+ * Whether the configured provider can actually be called (i.e. has a key if it needs one).
+ * A custom OpenAI-compatible endpoint counts as configured: local servers such
+ * as LM Studio or vLLM usually run without a key.
+ */
+export const hasCredentials = (settings: ProviderSettings): boolean => {
+  const provider = PROVIDERS[settings.providerId];
+  if (!provider.needsApiKey) return true;
+  if (settings.apiKey) return true;
+  if (settings.providerId === "gemini") return Boolean(process.env.API_KEY);
+  const endpoint = settings.endpoint.trim().replace(/\/+$/, "");
+  return settings.providerId === "openai" && endpoint !== "" && endpoint !== provider.defaultEndpoint;
+};
+
+// Web Crypto only exists in secure contexts; without it the hash is left out
+const sha256 = async (text: string): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Records which provider, model, sampling temperature and prompt produced a
+ * result. The mock provider samples nothing, so it has no temperature.
+ */
+export const buildProvenance = async (settings: ProviderSettings, prompt: string = ANALYSIS_PROMPT): Promise<AnalysisProvenance> => ({
+  providerId: settings.providerId,
+  model: settings.model || PROVIDERS[settings.providerId].defaultModel,
+  temperature: settings.providerId === "mock" ? null : ANALYSIS_TEMPERATURE,
+  promptHash: await sha256(prompt),
+  analyzedAt: new Date().toISOString(),
+});
+
+export const localProvenance = (): AnalysisProvenance => ({
+  providerId: "local",
+  model: "pixel-heuristics",
+  temperature: null,
+  promptHash: null,
+  analyzedAt: new Date().toISOString(),
+});
+
+/**
+ * Runs the thumbnail analysis on the configured provider, streaming progress
+ * (stage plus the layers parsed so far) to `onProgress`. Malformed JSON is sent
+ * back to the model with a repair prompt; the parsed answer is then validated
+ * and any fixes are reported in `warnings`. Aborting the signal rejects with
+ * an AbortError.
+ */
+export const analyzeThumbnail = async (
+  image: ImagePayload,
+  settings: ProviderSettings = loadProviderSettings(),
+  { signal, onProgress }: AnalyzeOptions = {}
+): Promise<ProcessingResult> => {
+  const provider = PROVIDERS[settings.providerId];
+
+  let reported = "";
+  const onText = (textSoFar: string) => {
+    // Layers come first in the answer; once the analysis key shows up the model is critiquing
+    const stage = textSoFar.includes('"analysis"') ? "CRITIQUING" : "DETECTING";
+    const layers = validateLayers(extractPartialLayers(textSoFar));
+    const key = `${stage}:${layers.length}`;
+    if (key === reported) return;
+    reported = key;
+    onProgress?.({ stage, layers });
+  };
+
+  onProgress?.({ stage: "UPLOADING", layers: [] });
+  const provenance = await buildProvenance(settings);
+  let text = await provider.request(image, settings, ANALYSIS_PROMPT, { signal, onText });
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { result, warnings } = validateRawResult(extractJson(text));
+      if (attempt > 0) warnings.unshift(`Response was malformed JSON, repaired after ${attempt} retr${attempt > 1 ? "ies" : "y"}`);
+      return warnings.length ? { ...result, warnings, provenance } : { ...result, provenance };
+    } catch (err: any) {
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(`AI response was not valid JSON: ${err.message}`);
+      }
+      console.error("Response Parse Error:", err);
+      text = await provider.request(image, settings, buildRepairPrompt(text, err.message), { signal, onText });
+    }
+  }
+};
+
+/**
+ * Analyzes an image given as a Data URL, falling back to the offline heuristics
+ * instead of failing when the provider has no credentials.
+ */
+export const analyzeImageSource = async (
+  dataUrl: string,
+  settings: ProviderSettings = loadProviderSettings(),
+  options: AnalyzeOptions = {}
+): Promise<ProcessingResult> => {
+  if (!hasCredentials(settings)) {
+    return { ...buildLocalResult(await loadImage(dataUrl)), provenance: localProvenance() };
+  }
+  const image = await buildUploadPayload(dataUrl, PROVIDERS[settings.providerId].acceptedTypes);
+  return analyzeThumbnail(image, settings, options);
+};
+
+// Context around a text box helps the model read clipped glyphs and outlines
+const TEXT_CROP_PADDING = 0.15;
+
+/**
+ * Reads the content and typography of a TEXT layer. Pixel estimates are always
+ * computed; with credentials the provider reads the text from a padded crop and
+ * its answer overrides them. Provider failures fall back to the estimate.
+ */
+export const recognizeText = async (
+  imageElement: HTMLImageElement,
+  layer: LayerData,
+  settings: ProviderSettings = loadProviderSettings(),
+  signal?: AbortSignal
+): Promise<TextAttributes> => {
+  const estimate = estimateTextStyle(imageElement, layer);
+  if (!hasCredentials(settings)) return estimate;
+
+  const { box } = layer;
+  const padX = (box.xmax - box.xmin) * TEXT_CROP_PADDING;
+  const padY = (box.ymax - box.ymin) * TEXT_CROP_PADDING;
+  const crop = cropLayer(imageElement, clampBox({
+    xmin: box.xmin - padX,
+    ymin: box.ymin - padY,
+    xmax: box.xmax + padX,
+    ymax: box.ymax + padY,
+  }));
+  if (!crop) return estimate;
+
+  try {
+    const provider = PROVIDERS[settings.providerId];
+    const image = await buildUploadPayload(crop, provider.acceptedTypes);
+    const text = await provider.request(image, settings, TEXT_PROMPT, { task: "text", signal });
+    const boxHeight = (box.ymax - box.ymin) * imageElement.naturalHeight;
+    return validateTextAttributes(extractJson(text), estimate, boxHeight);
+  } catch (err: any) {
+    if (signal?.aborted) throw err;
+    console.error("Text Recognition Error:", err);
+    return estimate;
+  }
+};
+
+// Headroom above a person box, where hair and raised hands often spill out
+const FACE_CROP_PADDING = 0.05;
+
+/**
+ * Finds the face of a PERSON layer with its gaze and expression. Without
+ * credentials, or when the provider fails, the face is guessed from the box
+ * proportions. Resolves to null when the provider sees no face.
+ */
+export const analyzeFace = async (
+  imageElement: HTMLImageElement,
+  layer: LayerData,
+  settings: ProviderSettings = loadProviderSettings(),
+  signal?: AbortSignal
+): Promise<FaceAttributes | null> => {
+  const estimate = estimateFace(imageElement, layer);
+  if (!hasCredentials(settings)) return estimate;
+
+  const { box } = layer;
+  const padX = (box.xmax - box.xmin) * FACE_CROP_PADDING;
+  const padY = (box.ymax - box.ymin) * FACE_CROP_PADDING;
+  const cropBox = clampBox({
+    xmin: box.xmin - padX,
+    ymin: box.ymin - padY,
+    xmax: box.xmax + padX,
+    ymax: box.ymax + padY,
+  });
+  const crop = cropLayer(imageElement, cropBox);
+  if (!crop) return estimate;
+
+  try {
+    const provider = PROVIDERS[settings.providerId];
+    const image = await buildUploadPayload(crop, provider.acceptedTypes);
+    const text = await provider.request(image, settings, FACE_PROMPT, { task: "face", signal });
+    return validateFaceAttributes(extractJson(text), estimate, cropBox);
+  } catch (err: any) {
+    if (signal?.aborted) throw err;
+    console.error("Face Analysis Error:", err);
+    return estimate;
+  }
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ProcessingResult, ElementType } from "../types";
+import { ElementType } from "../types";
+import { ANALYSIS_TEMPERATURE, AnalysisProvider, PromptTask } from "./analysisProvider";
 
 // Schema definition for the expected JSON output
 const layerSchema: Schema = {
@@ -51,111 +52,93 @@ const responseSchema: Schema = {
     layers: { type: Type.ARRAY, items: layerSchema },
     analysis: analysisSchema
   },
+  // Layers first, so they can be previewed while the critique is still streaming
+  propertyOrdering: ["layers", "analysis"],
   required: ["layers", "analysis"]
 };
 
-export const analyzeThumbnail = async (base64Image: string): Promise<ProcessingResult> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please set the API_KEY environment variable.");
-  }
+const textSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    content: { type: Type.STRING, description: "The text exactly as written, lines separated by \\n" },
+    fontWeight: { type: Type.NUMBER, description: "CSS font weight 400-900" },
+    fontFamily: { type: Type.STRING, description: "Closest common font family (e.g. 'Impact', 'Bebas Neue')" },
+    fill: { type: Type.STRING, description: "Hex color of the letter fill" },
+    stroke: { type: Type.STRING, nullable: true, description: "Hex color of the outline, null if none" },
+    rotation: { type: Type.NUMBER, description: "Rotation in degrees, clockwise" },
+    lineCount: { type: Type.INTEGER, description: "Number of text lines" }
+  },
+  required: ["content", "fontWeight", "fill", "rotation", "lineCount"]
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const faceSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    found: { type: Type.BOOLEAN, description: "False when no face is visible" },
+    ymin: { type: Type.NUMBER },
+    xmin: { type: Type.NUMBER },
+    ymax: { type: Type.NUMBER },
+    xmax: { type: Type.NUMBER },
+    gaze: { type: Type.STRING, enum: ["camera", "left", "right", "up", "down", "away"], description: "Where the eyes look, from the viewer's side" },
+    emotion: { type: Type.STRING, enum: ["joy", "surprise", "anger", "fear", "sadness", "disgust", "neutral"] },
+    emotionConfidence: { type: Type.NUMBER, description: "Confidence in the emotion, 0-1" }
+  },
+  required: ["found", "ymin", "xmin", "ymax", "xmax", "gaze", "emotion", "emotionConfidence"]
+};
+
+const SCHEMAS: Record<PromptTask, Schema> = {
+  analysis: responseSchema,
+  text: textSchema,
+  face: faceSchema,
+};
 
+export const geminiProvider: AnalysisProvider = {
+  id: "gemini",
+  name: "Google Gemini",
   // Using gemini-2.5-flash for speed and efficiency as requested
   // It is capable of object detection via bounding box reasoning
-  const modelId = "gemini-2.5-flash";
+  defaultModel: "gemini-2.5-flash",
+  defaultEndpoint: "",
+  needsApiKey: true,
+  acceptedTypes: ["image/jpeg", "image/png", "image/webp"],
 
-  const prompt = `
-    You are a professional graphic design AI tool named "Thumbnail Separator".
-    
-    Task: Deconstruct this YouTube/Gaming thumbnail into constituent visual layers.
-    
-    1. Detect every distinct element: People (primary, secondary), Text blocks, Objects, Logos, Backgrounds, Effects.
-    2. Provide a precise bounding box for each element.
-    3. Estimate the Z-index (stacking order) to separate foreground from background.
-    4. Analyze the composition rules and provide critique.
-    
-    Return strict JSON matching the schema.
-    For bounding boxes, use a scale of 0 to 1000.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: "image/jpeg", data: base64Image } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.2, // Low temperature for more deterministic/accurate analysis
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
-
-    const rawData = JSON.parse(text);
-
-    // Transform raw API data to our App types
-    // Normalize coordinates from 0-1000 to 0-1
-    const layers = rawData.layers.map((layer: any, index: number) => ({
-      id: `layer-${index}-${Date.now()}`,
-      label: layer.label,
-      type: layer.type,
-      subtype: layer.subtype,
-      confidence: layer.confidence || 0.9,
-      box: {
-        ymin: layer.ymin / 1000,
-        xmin: layer.xmin / 1000,
-        ymax: layer.ymax / 1000,
-        xmax: layer.xmax / 1000,
-      },
-      zIndex: layer.zIndex,
-      dominantColor: layer.dominantColor,
-      visible: true
-    }));
-
-    // Ensure there is at least a background layer if not detected
-    const hasBackground = layers.some((l: any) => l.type === ElementType.BACKGROUND);
-    if (!hasBackground) {
-      layers.unshift({
-        id: 'layer-bg-default',
-        label: 'Background Environment',
-        type: ElementType.BACKGROUND,
-        confidence: 0.5,
-        box: { ymin: 0, xmin: 0, ymax: 1, xmax: 1 },
-        zIndex: 0,
-        dominantColor: '#000000',
-        visible: true
-      });
+  request: async (image, settings, prompt, options = {}) => {
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key is missing. Please set the API_KEY environment variable or add a key in Settings.");
     }
 
-    // Sort layers by Z-index (ascending)
-    layers.sort((a: any, b: any) => a.zIndex - b.zIndex);
+    const ai = new GoogleGenAI({ apiKey });
 
-    return {
-      layers,
-      analysis: {
-        ruleOfThirdsScore: rawData.analysis.ruleOfThirdsScore,
-        visualBalanceScore: rawData.analysis.visualBalanceScore,
-        dominantColors: rawData.analysis.dominantColors,
-        brightnessMap: rawData.analysis.brightnessMap || "Balanced",
-        contrastLevel: rawData.analysis.contrastLevel || "Medium",
-        suggestions: rawData.analysis.suggestions,
-        eyeContact: rawData.analysis.eyeContact,
-        visualWeightCenter: {
-            x: rawData.analysis.weightCenterX || 50,
-            y: rawData.analysis.weightCenterY || 50
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: settings.model || geminiProvider.defaultModel,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: image.mimeType, data: image.data } },
+            { text: prompt }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: SCHEMAS[options.task ?? "analysis"],
+          temperature: ANALYSIS_TEMPERATURE,
+          abortSignal: options.signal
         }
+      });
+
+      let text = "";
+      for await (const chunk of stream) {
+        text += chunk.text ?? "";
+        options.onText?.(text);
       }
-    };
+      if (!text) throw new Error("No response from AI");
 
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
+      return text;
+
+    } catch (error) {
+      console.error("Gemini Analysis Error:", error);
+      throw error;
+    }
   }
 };
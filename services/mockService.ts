@@ -0,0 +1,112 @@
+import { AnalysisProvider, PromptTask } from "./analysisProvider";
+
+// Raw fixtures in the same shape the models return (0-1000 boxes)
+const FIXTURES = [
+  {
+    layers: [
+      { label: "Gradient Backdrop", type: "BACKGROUND", subtype: "Gradient", confidence: 0.95, ymin: 0, xmin: 0, ymax: 1000, xmax: 1000, zIndex: 1, dominantColor: "#1e3a8a" },
+      { label: "Host Reacting", type: "PERSON", subtype: "Male", confidence: 0.92, ymin: 180, xmin: 560, ymax: 1000, xmax: 960, zIndex: 5, dominantColor: "#f4c7a1" },
+      { label: "Video Title", type: "TEXT", subtype: "Headline", confidence: 0.88, ymin: 90, xmin: 40, ymax: 420, xmax: 540, zIndex: 8, dominantColor: "#facc15" },
+      { label: "Red Arrow", type: "EFFECT", subtype: "Arrow", confidence: 0.8, ymin: 450, xmin: 380, ymax: 700, xmax: 560, zIndex: 7, dominantColor: "#ef4444" }
+    ],
+    analysis: {
+      ruleOfThirdsScore: 78,
+      visualBalanceScore: 64,
+      dominantColors: ["#1e3a8a", "#facc15", "#ef4444", "#f4c7a1"],
+      brightnessMap: "Bright subject on the right, darker left half behind the title",
+      contrastLevel: "High",
+      suggestions: [
+        "Increase the title stroke so it reads at small sizes",
+        "Move the arrow closer to the subject's face",
+        "Add a subtle rim light to separate the host from the background"
+      ],
+      eyeContact: true,
+      weightCenterX: 62,
+      weightCenterY: 48
+    }
+  },
+  {
+    layers: [
+      { label: "Game Scene", type: "BACKGROUND", subtype: "Screenshot", confidence: 0.97, ymin: 0, xmin: 0, ymax: 1000, xmax: 1000, zIndex: 1, dominantColor: "#14532d" },
+      { label: "Sword", type: "OBJECT", subtype: "Weapon", confidence: 0.84, ymin: 250, xmin: 80, ymax: 900, xmax: 380, zIndex: 4, dominantColor: "#9ca3af" },
+      { label: "Channel Logo", type: "LOGO", subtype: "Badge", confidence: 0.9, ymin: 40, xmin: 860, ymax: 200, xmax: 970, zIndex: 9, dominantColor: "#ffffff" },
+      { label: "Episode Number", type: "TEXT", subtype: "Number", confidence: 0.86, ymin: 620, xmin: 600, ymax: 940, xmax: 940, zIndex: 8, dominantColor: "#ffffff" }
+    ],
+    analysis: {
+      ruleOfThirdsScore: 55,
+      visualBalanceScore: 71,
+      dominantColors: ["#14532d", "#9ca3af", "#ffffff"],
+      brightnessMap: "Evenly lit, low separation between foreground and background",
+      contrastLevel: "Medium",
+      suggestions: [
+        "Add a face or character to create an emotional anchor",
+        "Darken the background to make the sword pop",
+        "Enlarge the episode number"
+      ],
+      eyeContact: false,
+      weightCenterX: 45,
+      weightCenterY: 55
+    }
+  }
+];
+
+const TEXT_FIXTURES = [
+  { content: "YOU WON'T\nBELIEVE THIS", fontWeight: 900, fontFamily: "Impact", fill: "#facc15", stroke: "#000000", rotation: -4, lineCount: 2 },
+  { content: "EP. 12", fontWeight: 700, fontFamily: "Bebas Neue", fill: "#ffffff", stroke: null, rotation: 0, lineCount: 1 },
+];
+
+const FACE_FIXTURES = [
+  { found: true, ymin: 40, xmin: 280, ymax: 420, xmax: 720, gaze: "camera", emotion: "surprise", emotionConfidence: 0.86 },
+  { found: true, ymin: 60, xmin: 300, ymax: 380, xmax: 690, gaze: "right", emotion: "joy", emotionConfidence: 0.72 },
+];
+
+const FIXTURES_BY_TASK: Record<PromptTask, object[]> = {
+  analysis: FIXTURES,
+  text: TEXT_FIXTURES,
+  face: FACE_FIXTURES,
+};
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i += 97) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Resolves after `ms`, or rejects like fetch does when the signal aborts
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+  });
+
+/**
+ * Deterministic offline provider for UI work and demos. The same image always
+ * gets the same fixture, and no network or API quota is used.
+ */
+export const mockProvider: AnalysisProvider = {
+  id: "mock",
+  name: "Mock (fixtures)",
+  defaultModel: "fixture",
+  defaultEndpoint: "",
+  needsApiKey: false,
+  acceptedTypes: ["image/jpeg", "image/png", "image/webp"],
+
+  request: async (image, _settings, _prompt, options = {}) => {
+    // Simulate a short round-trip, then stream the fixture so loading states stay visible
+    await delay(600, options.signal);
+    const fixtures = FIXTURES_BY_TASK[options.task ?? "analysis"];
+    const fixture = fixtures[hashString(image.data) % fixtures.length];
+    const text = JSON.stringify(fixture);
+    for (let end = 0; end < text.length; end += 120) {
+      await delay(40, options.signal);
+      options.onText?.(text.slice(0, end + 120));
+    }
+    return text;
+  }
+};
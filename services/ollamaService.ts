@@ -0,0 +1,53 @@
+import { ANALYSIS_TEMPERATURE, AnalysisProvider, FORMAT_INSTRUCTIONS, readLines } from "./analysisProvider";
+
+/**
+ * A local Ollama (or compatible) server running a vision model such as LLaVA.
+ * Nothing leaves the machine, which makes this the offline option.
+ */
+export const ollamaProvider: AnalysisProvider = {
+  id: "ollama",
+  name: "Local Ollama / LLaVA",
+  defaultModel: "llava",
+  defaultEndpoint: "http://localhost:11434",
+  needsApiKey: false,
+  // llama.cpp based runtimes cannot decode WEBP
+  acceptedTypes: ["image/jpeg", "image/png"],
+
+  request: async (image, settings, prompt, options = {}) => {
+    const endpoint = (settings.endpoint || ollamaProvider.defaultEndpoint).replace(/\/+$/, "");
+
+    try {
+      const response = await fetch(`${endpoint}/api/generate`, {
+        method: "POST",
+        signal: options.signal,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: settings.model || ollamaProvider.defaultModel,
+          prompt: prompt + FORMAT_INSTRUCTIONS[options.task ?? "analysis"],
+          images: [image.data],
+          format: "json",
+          stream: true,
+          options: { temperature: ANALYSIS_TEMPERATURE }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama server returned ${response.status}: ${await response.text()}`);
+      }
+
+      // One JSON object per line, each carrying the next piece of the answer
+      let text = "";
+      await readLines(response, line => {
+        text += JSON.parse(line).response ?? "";
+        options.onText?.(text);
+      });
+      if (!text) throw new Error("No response from AI");
+
+      return text;
+
+    } catch (error) {
+      console.error("Ollama Analysis Error:", error);
+      throw error;
+    }
+  }
+};
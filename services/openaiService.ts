@@ -0,0 +1,62 @@
+import { ANALYSIS_TEMPERATURE, AnalysisProvider, FORMAT_INSTRUCTIONS, readLines } from "./analysisProvider";
+
+/**
+ * Any endpoint speaking the OpenAI chat-completions protocol with vision input
+ * (OpenAI itself, OpenRouter, vLLM, LM Studio, ...).
+ */
+export const openaiProvider: AnalysisProvider = {
+  id: "openai",
+  name: "OpenAI-compatible",
+  defaultModel: "gpt-4o-mini",
+  defaultEndpoint: "https://api.openai.com/v1",
+  needsApiKey: true,
+  acceptedTypes: ["image/jpeg", "image/png", "image/webp"],
+
+  request: async (image, settings, prompt, options = {}) => {
+    const endpoint = (settings.endpoint || openaiProvider.defaultEndpoint).replace(/\/+$/, "");
+
+    try {
+      const response = await fetch(`${endpoint}/chat/completions`, {
+        method: "POST",
+        signal: options.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: settings.model || openaiProvider.defaultModel,
+          temperature: ANALYSIS_TEMPERATURE,
+          stream: true,
+          response_format: { type: "json_object" },
+          messages: [{
+            role: "user",
+            content: [
+              { type: "text", text: prompt + FORMAT_INSTRUCTIONS[options.task ?? "analysis"] },
+              { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } }
+            ]
+          }]
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+      }
+
+      // Server-sent events: "data: {chunk}" lines, terminated by "data: [DONE]"
+      let text = "";
+      await readLines(response, line => {
+        const payload = line.replace(/^data:\s*/, "");
+        if (payload === "[DONE]" || payload === line) return;
+        text += JSON.parse(payload).choices?.[0]?.delta?.content ?? "";
+        options.onText?.(text);
+      });
+      if (!text) throw new Error("No response from AI");
+
+      return text;
+
+    } catch (error) {
+      console.error("OpenAI Analysis Error:", error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,89 @@
+import { StoredProject } from "../types";
+
+const DB_NAME = "thumbnail-separator";
+const DB_VERSION = 1;
+const STORE = "projects";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open project library"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Project library request failed"));
+  });
+};
+
+export const createProjectId = () =>
+  `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * All stored projects, most recently edited first.
+ */
+export const listProjects = async (): Promise<StoredProject[]> => {
+  const projects = await run<StoredProject[]>("readonly", store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string): Promise<StoredProject | undefined> =>
+  run<StoredProject | undefined>("readonly", store => store.get(id));
+
+export const saveProject = async (project: StoredProject): Promise<void> => {
+  await run("readwrite", store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await run("readwrite", store => store.delete(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found");
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<StoredProject> => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found");
+  const now = Date.now();
+  const copy: StoredProject = {
+    ...project,
+    id: createProjectId(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+/**
+ * Persists the latest edited result of an existing project.
+ */
+export const updateProjectResult = async (id: string, result: StoredProject["result"]): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) return;
+  await saveProject({ ...project, result, updatedAt: Date.now() });
+};
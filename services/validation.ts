@@ -0,0 +1,500 @@
+import { AnalysisProvenance, BoundingBox, CompositionAnalysis, CompositionDocument, CompositionItem, ElementType, Emotion, FaceAttributes, GazeDirection, ItemEffects, LayerData, ProcessingResult, TextAttributes } from "../types";
+import { EMOTIONS, GAZE_DIRECTIONS, faceGeometry } from "../utils/faces";
+import { BLEND_MODES, noEffects } from "../utils/compose";
+
+export interface ValidationOutcome {
+  result: ProcessingResult;
+  warnings: string[];
+}
+
+// Boxes are requested on a 0-1000 scale; anything thinner than this is noise
+const BOX_SCALE = 1000;
+const MIN_BOX_EXTENT = 5;
+const FALLBACK_COLOR = "#808080";
+
+const TYPE_ALIASES: Record<string, ElementType> = {
+  PEOPLE: ElementType.PERSON,
+  HUMAN: ElementType.PERSON,
+  FACE: ElementType.PERSON,
+  CHARACTER: ElementType.PERSON,
+  TITLE: ElementType.TEXT,
+  TYPOGRAPHY: ElementType.TEXT,
+  CAPTION: ElementType.TEXT,
+  ICON: ElementType.LOGO,
+  BRAND: ElementType.LOGO,
+  BG: ElementType.BACKGROUND,
+  SCENE: ElementType.BACKGROUND,
+  FX: ElementType.EFFECT,
+  OVERLAY: ElementType.EFFECT,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Normalizes "#abc", "abc", "#aabbcc", "#aabbccdd" and "rgb(r, g, b)" to "#aabbcc".
+ */
+export const normalizeHex = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const text = value.trim().toLowerCase();
+
+  const rgb = /^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})/.exec(text);
+  if (rgb) {
+    return "#" + rgb.slice(1, 4).map(v => clamp(Number(v), 0, 255).toString(16).padStart(2, "0")).join("");
+  }
+
+  const hex = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(text);
+  if (!hex) return null;
+  let digits = hex[1];
+  if (digits.length === 3) digits = digits.split("").map(c => c + c).join("");
+  return `#${digits.slice(0, 6)}`;
+};
+
+const coerceType = (value: unknown): ElementType | null => {
+  if (typeof value !== "string") return null;
+  const key = value.trim().toUpperCase();
+  if ((Object.values(ElementType) as string[]).includes(key)) return key as ElementType;
+  return TYPE_ALIASES[key] ?? null;
+};
+
+/**
+ * Reads a 0-1000 box, fixing inverted or out-of-range edges. Returns null (with
+ * a warning) when the box is missing or collapses to nothing.
+ */
+const validateBox = (raw: Record<string, unknown>, name: string, warnings: string[]): BoundingBox | null => {
+  const values = [raw.ymin, raw.xmin, raw.ymax, raw.xmax].map(toNumber);
+  if (values.some(v => v === null)) {
+    warnings.push(`Dropped layer "${name}": bounding box is incomplete`);
+    return null;
+  }
+  let [ymin, xmin, ymax, xmax] = values as number[];
+
+  // Some models answer in 0-1 despite the prompt; scale those up instead of losing the layer
+  if (Math.max(ymin, xmin, ymax, xmax) <= 1 && Math.max(ymax, xmax) > 0) {
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(v => v * BOX_SCALE);
+    warnings.push(`Layer "${name}": box was on a 0-1 scale, rescaled`);
+  }
+
+  if (xmin > xmax || ymin > ymax) {
+    warnings.push(`Layer "${name}": box edges were inverted, swapped`);
+    if (xmin > xmax) [xmin, xmax] = [xmax, xmin];
+    if (ymin > ymax) [ymin, ymax] = [ymax, ymin];
+  }
+
+  const edges = [ymin, xmin, ymax, xmax];
+  const clamped = edges.map(v => clamp(v, 0, BOX_SCALE));
+  if (clamped.some((v, i) => v !== edges[i])) {
+    warnings.push(`Layer "${name}": box exceeded the frame, clamped`);
+  }
+  [ymin, xmin, ymax, xmax] = clamped;
+
+  if (xmax - xmin < MIN_BOX_EXTENT || ymax - ymin < MIN_BOX_EXTENT) {
+    warnings.push(`Dropped layer "${name}": box has no area`);
+    return null;
+  }
+
+  return {
+    ymin: ymin / BOX_SCALE,
+    xmin: xmin / BOX_SCALE,
+    ymax: ymax / BOX_SCALE,
+    xmax: xmax / BOX_SCALE,
+  };
+};
+
+const validateLayer = (raw: unknown, index: number, warnings: string[]): LayerData | null => {
+  if (!isRecord(raw)) {
+    warnings.push(`Dropped layer #${index + 1}: not an object`);
+    return null;
+  }
+
+  let type = coerceType(raw.type);
+  const hasLabel = typeof raw.label === "string" && raw.label.trim() !== "";
+  const label = hasLabel ? (raw.label as string).trim() : `${type ?? "Layer"} ${index + 1}`;
+  if (!hasLabel) warnings.push(`Layer #${index + 1}: missing label, named "${label}"`);
+
+  if (!type) {
+    warnings.push(`Layer "${label}": unknown type "${String(raw.type)}", treated as OBJECT`);
+    type = ElementType.OBJECT;
+  }
+
+  const box = validateBox(raw, label, warnings);
+  if (!box) return null;
+
+  let dominantColor = normalizeHex(raw.dominantColor);
+  if (!dominantColor) {
+    warnings.push(`Layer "${label}": invalid color "${String(raw.dominantColor)}", using gray`);
+    dominantColor = FALLBACK_COLOR;
+  }
+
+  let confidence = toNumber(raw.confidence) ?? 0.9;
+  // Percentages instead of fractions
+  if (confidence > 1 && confidence <= 100) confidence /= 100;
+
+  const zIndex = toNumber(raw.zIndex);
+
+  return {
+    id: `layer-${index}-${Date.now()}`,
+    label,
+    type,
+    subtype: typeof raw.subtype === "string" && raw.subtype.trim() ? raw.subtype.trim() : undefined,
+    confidence: clamp(confidence, 0, 1),
+    box,
+    zIndex: zIndex === null ? index + 1 : Math.round(zIndex),
+    dominantColor,
+    visible: true,
+  };
+};
+
+/**
+ * Validates layers on their own, e.g. the partial list of a streaming answer.
+ * Warnings are discarded; the final response is validated again in full.
+ */
+export const validateLayers = (raw: unknown[]): LayerData[] =>
+  raw
+    .map((layer, index) => validateLayer(layer, index, []))
+    .filter((layer): layer is LayerData => layer !== null);
+
+const score = (value: unknown, name: string, warnings: string[]) => {
+  const n = toNumber(value);
+  if (n === null) {
+    warnings.push(`Analysis: missing ${name}, defaulted to 50`);
+    return 50;
+  }
+  if (n < 0 || n > 100) warnings.push(`Analysis: ${name} out of range, clamped`);
+  return Math.round(clamp(n, 0, 100));
+};
+
+const validateAnalysis = (raw: unknown, warnings: string[]): CompositionAnalysis => {
+  if (!isRecord(raw)) {
+    warnings.push("Analysis section missing; showing neutral defaults");
+    raw = {};
+  }
+  const a = raw as Record<string, unknown>;
+
+  const rawColors = Array.isArray(a.dominantColors) ? a.dominantColors : [];
+  const dominantColors = rawColors.map(normalizeHex).filter((c): c is string => c !== null);
+  if (dominantColors.length < rawColors.length) {
+    warnings.push(`Analysis: dropped ${rawColors.length - dominantColors.length} invalid palette colors`);
+  }
+
+  const contrastMatch = typeof a.contrastLevel === "string"
+    ? ["Low", "Medium", "High"].find(level => level.toLowerCase() === (a.contrastLevel as string).trim().toLowerCase())
+    : undefined;
+
+  const suggestions = Array.isArray(a.suggestions)
+    ? a.suggestions.filter((s): s is string => typeof s === "string" && s.trim() !== "")
+    : [];
+
+  return {
+    ruleOfThirdsScore: score(a.ruleOfThirdsScore, "rule of thirds score", warnings),
+    visualBalanceScore: score(a.visualBalanceScore, "balance score", warnings),
+    dominantColors,
+    brightnessMap: typeof a.brightnessMap === "string" && a.brightnessMap ? a.brightnessMap : "Balanced",
+    contrastLevel: contrastMatch ?? "Medium",
+    suggestions,
+    eyeContact: a.eyeContact === true || a.eyeContact === "true",
+    visualWeightCenter: {
+      x: clamp(toNumber(a.weightCenterX) ?? 50, 0, 100),
+      y: clamp(toNumber(a.weightCenterY) ?? 50, 0, 100),
+    },
+    source: "ai",
+  };
+};
+
+/**
+ * Turns whatever the model returned into a well-formed ProcessingResult.
+ * Nothing here throws: invalid pieces are coerced or dropped and every fix
+ * is recorded as a human-readable warning.
+ */
+export const validateRawResult = (raw: unknown): ValidationOutcome => {
+  const warnings: string[] = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) warnings.push("Response was not a JSON object");
+
+  if (!Array.isArray(data.layers)) warnings.push("Response had no layer list");
+  const layers = (Array.isArray(data.layers) ? data.layers : [])
+    .map((layer, index) => validateLayer(layer, index, warnings))
+    .filter((layer): layer is LayerData => layer !== null);
+
+  // Ensure there is at least a background layer if not detected
+  if (!layers.some(l => l.type === ElementType.BACKGROUND)) {
+    layers.unshift({
+      id: 'layer-bg-default',
+      label: 'Background Environment',
+      type: ElementType.BACKGROUND,
+      confidence: 0.5,
+      box: { ymin: 0, xmin: 0, ymax: 1, xmax: 1 },
+      zIndex: 0,
+      dominantColor: '#000000',
+      visible: true
+    });
+  }
+
+  // Sort layers by Z-index (ascending)
+  layers.sort((a, b) => a.zIndex - b.zIndex);
+
+  return {
+    result: { layers, analysis: validateAnalysis(data.analysis, warnings) },
+    warnings,
+  };
+};
+
+const isImageDataUrl = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith("data:image/");
+
+const isStoredBox = (value: unknown): value is BoundingBox =>
+  isRecord(value) && [value.xmin, value.ymin, value.xmax, value.ymax].every(v => typeof v === "number" && Number.isFinite(v));
+
+const isStoredText = (value: unknown): value is TextAttributes =>
+  isRecord(value) && typeof value.content === "string" && typeof value.fontSize === "number" &&
+  typeof value.fontWeight === "number" && typeof value.fill === "string" && typeof value.rotation === "number";
+
+const isStoredFace = (value: unknown): value is FaceAttributes =>
+  isRecord(value) && isStoredBox(value.box) && (GAZE_DIRECTIONS as unknown[]).includes(value.gaze) &&
+  (EMOTIONS as unknown[]).includes(value.emotion) && typeof value.sizePercent === "number";
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/** Provenance with every field of the expected type, or undefined. */
+export const validateProvenance = (raw: unknown): AnalysisProvenance | undefined => {
+  if (!isRecord(raw) || typeof raw.providerId !== "string" || typeof raw.model !== "string" || typeof raw.analyzedAt !== "string") {
+    return undefined;
+  }
+  if (raw.temperature !== null && !isFiniteNumber(raw.temperature)) return undefined;
+  if (raw.promptHash !== null && typeof raw.promptHash !== "string") return undefined;
+  return {
+    providerId: raw.providerId,
+    model: raw.model,
+    temperature: isFiniteNumber(raw.temperature) ? raw.temperature : null,
+    promptHash: typeof raw.promptHash === "string" ? raw.promptHash : null,
+    analyzedAt: raw.analyzedAt,
+  };
+};
+
+// Keeps locales that map layer ids to strings; anything else can't be drawn
+const validateLocalizations = (raw: Record<string, unknown>, warnings: string[]): Record<string, Record<string, string>> =>
+  Object.fromEntries(Object.entries(raw).flatMap(([locale, texts]) => {
+    if (!isRecord(texts)) {
+      warnings.push(`Dropped translations for "${locale}": not a text map`);
+      return [];
+    }
+    return [[locale, Object.fromEntries(Object.entries(texts).filter((entry): entry is [string, string] => typeof entry[1] === "string"))]];
+  }));
+
+const validateEffects = (raw: unknown): ItemEffects => {
+  if (!isRecord(raw)) return noEffects();
+  const { shadow, stroke, glow } = raw;
+  return {
+    shadow: isRecord(shadow) && normalizeHex(shadow.color) && [shadow.blur, shadow.offsetX, shadow.offsetY].every(isFiniteNumber)
+      ? { color: normalizeHex(shadow.color)!, blur: shadow.blur as number, offsetX: shadow.offsetX as number, offsetY: shadow.offsetY as number }
+      : null,
+    stroke: isRecord(stroke) && normalizeHex(stroke.color) && isFiniteNumber(stroke.width)
+      ? { color: normalizeHex(stroke.color)!, width: stroke.width }
+      : null,
+    glow: isRecord(glow) && normalizeHex(glow.color) && isFiniteNumber(glow.blur)
+      ? { color: normalizeHex(glow.color)!, blur: glow.blur }
+      : null,
+  };
+};
+
+// Stored text blocks go through the model-answer coercions, with their own values as the fallback
+const validateItemText = (raw: unknown, height: number): TextAttributes | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const stroke = isRecord(raw.stroke) && normalizeHex(raw.stroke.color) && isFiniteNumber(raw.stroke.width)
+    ? { color: normalizeHex(raw.stroke.color)!, width: raw.stroke.width }
+    : null;
+  const fallback: TextAttributes = {
+    content: "",
+    fontSize: isFiniteNumber(raw.fontSize) && raw.fontSize > 0 ? raw.fontSize : Math.max(1, Math.round(height * 0.75)),
+    fontWeight: 700,
+    fill: "#ffffff",
+    stroke,
+    rotation: 0,
+    source: raw.source === "ai" ? "ai" : "local",
+  };
+  const text = validateTextAttributes({ ...raw, stroke: stroke?.color ?? null }, fallback, height);
+  return { ...text, stroke, source: fallback.source };
+};
+
+const validateCompositionItem = (raw: unknown, index: number, warnings: string[]): CompositionItem | null => {
+  const numbers = ["x", "y", "width", "height", "scale", "rotation", "opacity"] as const;
+  if (!isRecord(raw) || !numbers.every(key => isFiniteNumber(raw[key])) || (raw.width as number) <= 0 || (raw.height as number) <= 0) {
+    warnings.push(`Dropped composition item #${index + 1}: missing position, size or transform`);
+    return null;
+  }
+  const label = typeof raw.label === "string" ? raw.label : `Item ${index + 1}`;
+  if (raw.blendMode !== undefined && !(BLEND_MODES as unknown[]).includes(raw.blendMode)) {
+    warnings.push(`Composition item "${label}": unknown blend mode, using normal`);
+  }
+  const text = validateItemText(raw.text, raw.height as number);
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : `item-${index + 1}`,
+    ...(typeof raw.layerId === "string" ? { layerId: raw.layerId } : {}),
+    ...(text ? { text } : {}),
+    label,
+    x: raw.x as number,
+    y: raw.y as number,
+    width: raw.width as number,
+    height: raw.height as number,
+    scale: raw.scale as number,
+    rotation: raw.rotation as number,
+    flipX: raw.flipX === true,
+    flipY: raw.flipY === true,
+    opacity: clamp(raw.opacity as number, 0, 1),
+    blendMode: (BLEND_MODES as unknown[]).includes(raw.blendMode) ? raw.blendMode as CompositionItem["blendMode"] : "normal",
+    effects: validateEffects(raw.effects),
+    visible: raw.visible !== false,
+  };
+};
+
+const validateComposition = (raw: Record<string, unknown>, warnings: string[]): CompositionDocument | undefined => {
+  if (!isFiniteNumber(raw.width) || !isFiniteNumber(raw.height) || raw.width <= 0 || raw.height <= 0 || !Array.isArray(raw.items)) {
+    warnings.push("Dropped the recomposed layout: missing size or items");
+    return undefined;
+  }
+  return {
+    width: raw.width,
+    height: raw.height,
+    background: normalizeHex(raw.background) ?? "#000000",
+    items: raw.items
+      .map((item, index) => validateCompositionItem(item, index, warnings))
+      .filter((item): item is CompositionItem => item !== null),
+  };
+};
+
+/**
+ * Validates a ProcessingResult read back from a file rather than a model:
+ * boxes are already normalized and ids, visibility and user additions
+ * (groups, masks, text, faces) are kept. Layers and analysis go through the
+ * same coercions as model answers; nested data that doesn't fit is dropped
+ * so the editor can always render the result.
+ */
+export const validateStoredResult = (raw: unknown): ValidationOutcome => {
+  const warnings: string[] = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!Array.isArray(data.layers)) warnings.push("Result had no layer list");
+
+  const layers = (Array.isArray(data.layers) ? data.layers : []).map((layer, index): LayerData | null => {
+    if (!isRecord(layer) || !isRecord(layer.box)) {
+      warnings.push(`Dropped layer #${index + 1}: no bounding box`);
+      return null;
+    }
+    const box = layer.box;
+    // Back to the 0-1000 scale validateBox reads
+    const edges = Object.fromEntries(["ymin", "xmin", "ymax", "xmax"].map(key => {
+      const value = toNumber(box[key]);
+      return [key, value === null ? null : value * BOX_SCALE];
+    }));
+    const validated = validateLayer({ ...layer, ...edges }, index, warnings);
+    if (!validated) return null;
+
+    return {
+      ...validated,
+      id: typeof layer.id === "string" && layer.id ? layer.id : validated.id,
+      visible: layer.visible !== false,
+      ...(typeof layer.group === "string" && layer.group.trim() ? { group: layer.group } : {}),
+      ...(isImageDataUrl(layer.maskUrl) ? { maskUrl: layer.maskUrl } : {}),
+      ...(isImageDataUrl(layer.fillUrl) ? { fillUrl: layer.fillUrl } : {}),
+      ...(isStoredText(layer.text) ? { text: layer.text } : {}),
+      ...(layer.face === null ? { face: null } : isStoredFace(layer.face) ? { face: layer.face } : {}),
+    };
+  }).filter((layer): layer is LayerData => layer !== null);
+
+  const rawAnalysis = isRecord(data.analysis) ? data.analysis : undefined;
+  const center = isRecord(rawAnalysis?.visualWeightCenter) ? rawAnalysis.visualWeightCenter : {};
+  const analysis = validateAnalysis(
+    rawAnalysis && { ...rawAnalysis, weightCenterX: center.x, weightCenterY: center.y },
+    warnings
+  );
+
+  const result: ProcessingResult = {
+    layers,
+    analysis: { ...analysis, source: rawAnalysis?.source === "local" ? "local" : "ai" },
+  };
+  if (Array.isArray(data.warnings)) result.warnings = data.warnings.filter((w): w is string => typeof w === "string");
+  const provenance = validateProvenance(data.provenance);
+  if (provenance) result.provenance = provenance;
+  if (isRecord(data.localizations)) result.localizations = validateLocalizations(data.localizations, warnings);
+  if (isRecord(data.composition)) {
+    const composition = validateComposition(data.composition, warnings);
+    if (composition) result.composition = composition;
+  }
+  return { result, warnings };
+};
+
+/**
+ * Validates a text-recognition answer. Anything missing or invalid keeps the
+ * local pixel estimate; the font size is derived from the box and line count
+ * since models are poor at measuring pixels.
+ */
+export const validateTextAttributes = (raw: unknown, estimate: TextAttributes, boxHeight: number): TextAttributes => {
+  if (!isRecord(raw)) return estimate;
+
+  const content = typeof raw.content === "string" ? raw.content.replace(/\\n/g, "\n").trim() : "";
+  const lineCount = toNumber(raw.lineCount);
+  const weight = toNumber(raw.fontWeight);
+  const rotation = toNumber(raw.rotation);
+  const strokeColor = normalizeHex(raw.stroke);
+
+  return {
+    content: content || estimate.content,
+    fontSize: lineCount && lineCount >= 1 ? Math.round((boxHeight / Math.round(lineCount)) * 0.75) : estimate.fontSize,
+    fontWeight: weight === null ? estimate.fontWeight : Math.round(clamp(weight, 100, 900) / 100) * 100,
+    fontFamily: typeof raw.fontFamily === "string" && raw.fontFamily.trim() ? raw.fontFamily.trim() : estimate.fontFamily,
+    fill: normalizeHex(raw.fill) ?? estimate.fill,
+    stroke: raw.stroke === null
+      ? null
+      : strokeColor
+        ? { color: strokeColor, width: estimate.stroke?.width ?? Math.max(1, Math.round(estimate.fontSize * 0.06)) }
+        : estimate.stroke,
+    rotation: rotation === null ? estimate.rotation : clamp(rotation, -180, 180),
+    source: content ? "ai" : estimate.source,
+  };
+};
+
+/**
+ * Validates a face answer for a crop of a PERSON layer. The box comes back on
+ * the crop's 0-1000 scale and is mapped into the image; size and clipping are
+ * then measured locally. Returns null when the model saw no face, and the
+ * estimate when the answer is unusable.
+ */
+export const validateFaceAttributes = (raw: unknown, estimate: FaceAttributes, crop: BoundingBox): FaceAttributes | null => {
+  if (!isRecord(raw)) return estimate;
+  if (raw.found === false || raw.found === "false") return null;
+
+  const warnings: string[] = [];
+  const local = validateBox(raw, "face", warnings);
+  if (!local) return estimate;
+
+  const cropWidth = crop.xmax - crop.xmin;
+  const cropHeight = crop.ymax - crop.ymin;
+  const box: BoundingBox = {
+    ymin: crop.ymin + local.ymin * cropHeight,
+    xmin: crop.xmin + local.xmin * cropWidth,
+    ymax: crop.ymin + local.ymax * cropHeight,
+    xmax: crop.xmin + local.xmax * cropWidth,
+  };
+
+  const gaze = typeof raw.gaze === "string" ? raw.gaze.trim().toLowerCase() : "";
+  const emotion = typeof raw.emotion === "string" ? raw.emotion.trim().toLowerCase() : "";
+  const confidence = toNumber(raw.emotionConfidence);
+  const knownEmotion = (EMOTIONS as string[]).includes(emotion);
+
+  return {
+    box,
+    gaze: (GAZE_DIRECTIONS as string[]).includes(gaze) ? gaze as GazeDirection : "unknown",
+    emotion: knownEmotion ? emotion as Emotion : "neutral",
+    // Percentages slip through sometimes, as with layer confidence
+    emotionConfidence: knownEmotion && confidence !== null ? clamp(confidence > 1 ? confidence / 100 : confidence, 0, 1) : 0,
+    ...faceGeometry(box),
+    source: "ai",
+  };
+};
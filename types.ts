@@ -14,6 +14,31 @@ export interface BoundingBox {
   xmax: number;
 }
 
+export interface TextAttributes {
+  content: string;
+  fontSize: number; // Pixels at the original image resolution
+  fontWeight: number; // CSS weight, 400 regular to 900 black
+  fontFamily?: string; // Best guess, e.g. "Impact"
+  fill: string;
+  stroke: { color: string; width: number } | null; // Outline width in pixels
+  rotation: number; // Degrees, clockwise
+  source: 'ai' | 'local';
+}
+
+export type GazeDirection = 'camera' | 'left' | 'right' | 'up' | 'down' | 'away' | 'unknown';
+
+export type Emotion = 'joy' | 'surprise' | 'anger' | 'fear' | 'sadness' | 'disgust' | 'neutral';
+
+export interface FaceAttributes {
+  box: BoundingBox; // Normalized to the whole image, like layer boxes
+  gaze: GazeDirection; // Where the eyes point, from the viewer's side
+  emotion: Emotion;
+  emotionConfidence: number; // 0-1
+  sizePercent: number; // Face area as a percentage of the frame
+  cutOff: boolean; // The face touches the frame edge
+  source: 'ai' | 'local';
+}
+
 export interface LayerData {
   id: string;
   label: string;
@@ -24,7 +49,11 @@ export interface LayerData {
   zIndex: number;
   dominantColor: string;
   visible: boolean;
-  maskUrl?: string; // Generated on client side
+  maskUrl?: string; // Alpha mask PNG covering the box, generated on client side
+  fillUrl?: string; // Replacement pixels covering the box (e.g. an inpainted clean plate)
+  group?: string; // Folder name set by the user; grouped layers are listed and exported together
+  text?: TextAttributes; // Recognized content and typography, TEXT layers only
+  face?: FaceAttributes | null; // Detected face, gaze and expression, PERSON layers only; null when none is visible
 }
 
 export interface CompositionAnalysis {
@@ -36,16 +65,122 @@ export interface CompositionAnalysis {
   suggestions: string[];
   eyeContact: boolean;
   visualWeightCenter: { x: number; y: number };
+  source?: 'ai' | 'local'; // Who produced the numbers: the vision model or the pixel heuristics
+}
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'hard-light' | 'soft-light';
+
+export interface ItemEffects {
+  shadow: { color: string; blur: number; offsetX: number; offsetY: number } | null;
+  stroke: { color: string; width: number } | null; // Outline around the cutout silhouette
+  glow: { color: string; blur: number } | null;
+}
+
+// One element of a recomposed thumbnail: a layer cutout or a new text block.
+// Sizes and positions are in composition pixels.
+export interface CompositionItem {
+  id: string;
+  layerId?: string; // Source layer; absent for text added in the compositor
+  text?: TextAttributes; // Set for text blocks, drawn live instead of a cutout
+  label: string;
+  x: number; // Center
+  y: number;
+  width: number; // Size at scale 1
+  height: number;
+  scale: number;
+  rotation: number; // Degrees, clockwise
+  flipX: boolean;
+  flipY: boolean;
+  opacity: number; // 0-1
+  blendMode: BlendMode;
+  effects: ItemEffects;
+  visible: boolean;
+}
+
+export interface CompositionDocument {
+  width: number;
+  height: number;
+  background: string; // Fill behind the items, hex
+  items: CompositionItem[]; // Bottom to top
+}
+
+// Where an analysis came from, so shared results can be traced and reproduced
+export interface AnalysisProvenance {
+  providerId: string; // Provider id, or "local" for the offline heuristics
+  model: string;
+  temperature: number | null; // Null when no model was sampled
+  promptHash: string | null; // SHA-256 (hex) of the analysis prompt
+  analyzedAt: string; // ISO timestamp
 }
 
 export interface ProcessingResult {
   layers: LayerData[];
   analysis: CompositionAnalysis;
+  provenance?: AnalysisProvenance;
+  warnings?: string[]; // Fixes applied while validating the model response
+  localizations?: Record<string, Record<string, string>>; // Locale -> layer id -> translated text
+  composition?: CompositionDocument; // Recomposed layout built from these layers
+}
+
+export type AnalysisStage = 'UPLOADING' | 'DETECTING' | 'CRITIQUING';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  layers: LayerData[]; // Layers parsed so far from the streaming response
 }
 
 export interface AppState {
-  status: 'IDLE' | 'ANALYZING' | 'SUCCESS' | 'ERROR';
+  status: 'IDLE' | 'ANALYZING' | 'SUCCESS' | 'ERROR' | 'BATCH';
   imageSrc: string | null;
   result: ProcessingResult | null;
   error: string | null;
 }
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  imageSrc: string;
+  status: 'QUEUED' | 'ANALYZING' | 'SUCCESS' | 'ERROR';
+  result: ProcessingResult | null;
+  error: string | null;
+  attempts: number;
+}
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  image: Blob;
+  thumbnail: string; // Small JPEG Data URL for the library grid
+  originalResult: ProcessingResult; // As returned by the analysis, before user edits
+  result: ProcessingResult;
+}
+
+// Layer ids that differ between the analysis as returned and the edited result
+export interface ProjectEdits {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+// A shareable .tsep project file; see utils/projectFile.ts for the format and migrations
+export interface ProjectFile {
+  format: 'tsep';
+  version: number;
+  name: string;
+  createdAt: string; // ISO timestamps
+  exportedAt: string;
+  image: { dataUrl: string; width: number; height: number };
+  provenance: AnalysisProvenance | null;
+  originalResult: ProcessingResult; // As returned by the analysis, before user edits
+  result: ProcessingResult; // With the user's edits
+  edits: ProjectEdits; // Summary for readers and diffs; recomputed on import
+}
+
+export interface CompareVariant {
+  id: string;
+  name: string;
+  imageSrc: string;
+  result: ProcessingResult;
+}
@@ -0,0 +1,48 @@
+import { ProcessingResult } from "../types";
+import { RADAR_METRICS, overallScore } from "./comparison";
+
+// Score keys a threshold can target: the radar axes plus their average
+export const AUDIT_METRICS = [...RADAR_METRICS.map(m => m.key), "overall"];
+
+export type AuditThresholds = Record<string, number>;
+
+export interface AuditReport {
+  file: string;
+  scores: Record<string, number>;
+  failures: string[]; // One line per score under its threshold
+  passed: boolean;
+}
+
+/** The same numbers the analysis panel plots, faces included. */
+export const auditScores = (result: ProcessingResult): Record<string, number> => ({
+  ...Object.fromEntries(RADAR_METRICS.map(m => [m.key, m.score(result.analysis, result.layers)])),
+  overall: overallScore(result.analysis, result.layers),
+});
+
+/**
+ * Reads `metric=minimum` pairs such as "overall=60" or "eyeContact=50".
+ * Throws on unknown metrics so a typo can't silently disable a gate.
+ */
+export const parseThresholds = (pairs: string[]): AuditThresholds => {
+  const thresholds: AuditThresholds = {};
+  pairs.forEach(pair => {
+    const [metric, value] = pair.split("=");
+    const minimum = Number(value);
+    if (!AUDIT_METRICS.includes(metric)) {
+      throw new Error(`Unknown metric "${metric}". Use one of: ${AUDIT_METRICS.join(", ")}`);
+    }
+    if (value === undefined || !Number.isFinite(minimum)) {
+      throw new Error(`Threshold for "${metric}" must be a number, e.g. ${metric}=60`);
+    }
+    thresholds[metric] = minimum;
+  });
+  return thresholds;
+};
+
+export const auditResult = (file: string, result: ProcessingResult, thresholds: AuditThresholds): AuditReport => {
+  const scores = auditScores(result);
+  const failures = Object.entries(thresholds)
+    .filter(([metric, minimum]) => scores[metric] < minimum)
+    .map(([metric, minimum]) => `${metric} ${scores[metric]} < ${minimum}`);
+  return { file, scores, failures, passed: failures.length === 0 };
+};
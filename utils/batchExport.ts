@@ -0,0 +1,72 @@
+import { BatchItem } from "../types";
+
+const CSV_COLUMNS = [
+  "file",
+  "status",
+  "layers",
+  "ruleOfThirdsScore",
+  "visualBalanceScore",
+  "contrastLevel",
+  "eyeContact",
+  "weightCenterX",
+  "weightCenterY",
+  "dominantColors",
+  "source",
+  "error",
+];
+
+export const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per batch item with the CompositionAnalysis scores flattened out.
+ */
+export const batchToCsv = (items: BatchItem[]): string => {
+  const rows = items.map(item => {
+    const analysis = item.result?.analysis;
+    return [
+      item.fileName,
+      item.status,
+      item.result?.layers.length,
+      analysis?.ruleOfThirdsScore,
+      analysis?.visualBalanceScore,
+      analysis?.contrastLevel,
+      analysis?.eyeContact,
+      analysis?.visualWeightCenter.x,
+      analysis?.visualWeightCenter.y,
+      analysis?.dominantColors.join(" "),
+      analysis?.source,
+      item.error,
+    ].map(csvCell).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+};
+
+/**
+ * Aggregate JSON: the full analysis for every item (without layer pixels) plus averages.
+ */
+export const batchToJson = (items: BatchItem[]): string => {
+  const done = items.filter(i => i.result);
+  const average = (pick: (item: BatchItem) => number) =>
+    done.length ? Math.round(done.reduce((acc, i) => acc + pick(i), 0) / done.length) : null;
+
+  return JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    total: items.length,
+    analyzed: done.length,
+    failed: items.filter(i => i.status === "ERROR").length,
+    averages: {
+      ruleOfThirdsScore: average(i => i.result!.analysis.ruleOfThirdsScore),
+      visualBalanceScore: average(i => i.result!.analysis.visualBalanceScore),
+    },
+    items: items.map(item => ({
+      file: item.fileName,
+      status: item.status,
+      error: item.error,
+      layerCount: item.result?.layers.length ?? null,
+      analysis: item.result?.analysis ?? null,
+    })),
+  }, null, 2);
+};
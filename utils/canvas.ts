@@ -0,0 +1,35 @@
+/**
+ * Where canvases and decoded images come from. The browser uses the DOM; the
+ * headless CLI installs a backend built on a native canvas library, so the
+ * same pixel code runs in both.
+ */
+export interface CanvasBackend {
+  createCanvas: (width: number, height: number) => HTMLCanvasElement;
+  loadImage: (src: string) => Promise<HTMLImageElement>;
+}
+
+const domBackend: CanvasBackend = {
+  createCanvas: (width, height) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+  loadImage: src =>
+    new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Failed to load image"));
+      img.src = src;
+    }),
+};
+
+let backend = domBackend;
+
+export const setCanvasBackend = (next: CanvasBackend) => {
+  backend = next;
+};
+
+export const createCanvas = (width = 300, height = 150): HTMLCanvasElement => backend.createCanvas(width, height);
+
+export const decodeImage = (src: string): Promise<HTMLImageElement> => backend.loadImage(src);
@@ -0,0 +1,130 @@
+import { ElementType, LayerData } from "../types";
+import { loadImage } from "./imageProcessing";
+import { inpaintMultiScale } from "./inpaint";
+import { createCanvas } from "./canvas";
+
+// Grow the hole a little so halos, shadows and anti-aliased edges go too
+const DILATE_RADIUS = 4;
+const ALPHA_THRESHOLD = 32;
+
+/**
+ * The layer a clean plate belongs to: the bottom-most BACKGROUND layer.
+ */
+export const findBackgroundLayer = (layers: LayerData[]): LayerData | undefined =>
+  layers
+    .filter(l => l.type === ElementType.BACKGROUND)
+    .sort((a, b) => a.zIndex - b.zIndex)[0];
+
+/**
+ * Everything stacked above the background that has to be painted out.
+ */
+export const foregroundLayers = (layers: LayerData[], background: LayerData) =>
+  layers.filter(l => l.type !== ElementType.BACKGROUND && l.zIndex > background.zIndex);
+
+const sameBox = (a: LayerData["box"], b: LayerData["box"]) =>
+  a.xmin === b.xmin && a.ymin === b.ymin && a.xmax === b.xmax && a.ymax === b.ymax;
+
+/**
+ * Whether a plate generated for `before` no longer matches `after`: the
+ * background changed or a layer it paints out was added, removed, moved or
+ * re-masked.
+ */
+export const isCleanPlateOutdated = (before: LayerData[], after: LayerData[]): boolean => {
+  const oldBackground = findBackgroundLayer(before);
+  const newBackground = findBackgroundLayer(after);
+  if (!oldBackground || !newBackground) return oldBackground !== newBackground;
+  if (oldBackground.id !== newBackground.id) return true;
+  const previous = foregroundLayers(before, oldBackground);
+  const next = foregroundLayers(after, newBackground);
+  return previous.length !== next.length || next.some((layer, i) =>
+    layer.id !== previous[i].id || !sameBox(layer.box, previous[i].box) || layer.maskUrl !== previous[i].maskUrl
+  );
+};
+
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number) => {
+  // Separable max filter: horizontal then vertical
+  const horizontal = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      for (let dx = Math.max(0, x - radius); dx <= Math.min(width - 1, x + radius); dx++) horizontal[y * width + dx] = 1;
+    }
+  }
+  const result = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!horizontal[y * width + x]) continue;
+      for (let dy = Math.max(0, y - radius); dy <= Math.min(height - 1, y + radius); dy++) result[dy * width + x] = 1;
+    }
+  }
+  return result;
+};
+
+/**
+ * Rasterizes the union of the given layers at full resolution: their
+ * segmentation masks when available, their boxes otherwise.
+ */
+export const buildLayerMask = async (
+  width: number,
+  height: number,
+  layers: LayerData[]
+): Promise<Uint8Array> => {
+  const canvas = createCanvas();
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return new Uint8Array(width * height);
+
+  ctx.fillStyle = "#ffffff";
+  for (const layer of layers) {
+    const x = layer.box.xmin * width;
+    const y = layer.box.ymin * height;
+    const w = (layer.box.xmax - layer.box.xmin) * width;
+    const h = (layer.box.ymax - layer.box.ymin) * height;
+    if (layer.maskUrl) {
+      ctx.drawImage(await loadImage(layer.maskUrl), x, y, w, h);
+    } else {
+      ctx.fillRect(x, y, w, h);
+    }
+  }
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4 + 3] > ALPHA_THRESHOLD ? 1 : 0;
+  return dilate(mask, width, height, DILATE_RADIUS);
+};
+
+/**
+ * Produces a clean plate: the full frame with every foreground layer removed
+ * and the holes filled by multi-scale diffusion. Returns a PNG Data URL, or
+ * undefined when there is no background layer to attach it to.
+ */
+export const generateCleanPlate = async (
+  imageElement: HTMLImageElement,
+  layers: LayerData[]
+): Promise<string | undefined> => {
+  const background = findBackgroundLayer(layers);
+  if (!background) return undefined;
+
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  const canvas = createCanvas();
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return undefined;
+  ctx.drawImage(imageElement, 0, 0);
+
+  const mask = await buildLayerMask(width, height, foregroundLayers(layers, background));
+  const image = ctx.getImageData(0, 0, width, height);
+  inpaintMultiScale(image, mask);
+  ctx.putImageData(image, 0, 0);
+
+  // The fill covers the background layer's box, like masks do
+  const { box } = background;
+  const crop = createCanvas();
+  crop.width = Math.max(1, Math.round((box.xmax - box.xmin) * width));
+  crop.height = Math.max(1, Math.round((box.ymax - box.ymin) * height));
+  crop.getContext("2d")?.drawImage(canvas, box.xmin * width, box.ymin * height, crop.width, crop.height, 0, 0, crop.width, crop.height);
+  return crop.toDataURL("image/png");
+};
@@ -0,0 +1,93 @@
+export type RGB = [number, number, number];
+
+export const hexToRgb = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  let value = match[1];
+  if (value.length === 3) {
+    value = value.split("").map(c => c + c).join("");
+  }
+  const num = parseInt(value, 16);
+  return [(num >> 16) & 255, (num >> 8) & 255, num & 255];
+};
+
+export const rgbToHex = (rgb: RGB): string =>
+  "#" + rgb.map(v => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, "0")).join("");
+
+export const colorDistance = (a: RGB, b: RGB) => {
+  const dr = a[0] - b[0];
+  const dg = a[1] - b[1];
+  const db = a[2] - b[2];
+  return dr * dr + dg * dg + db * db;
+};
+
+/**
+ * Perceived brightness (Rec. 709 luma) in the 0-255 range.
+ */
+export const luma = (rgb: RGB) => 0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2];
+
+/**
+ * Tiny k-means used to summarise a set of color samples into a few centroids.
+ * Seeding is deterministic (evenly spaced samples) so results are reproducible.
+ */
+export const clusterColors = (samples: RGB[], k: number, iterations = 8): RGB[] => {
+  return clusterColorsWithCounts(samples, k, iterations).map(c => c.color);
+};
+
+/**
+ * Same as clusterColors, but also reports how many samples fell in each cluster.
+ */
+export const clusterColorsWithCounts = (
+  samples: RGB[],
+  k: number,
+  iterations = 8
+): { color: RGB; count: number }[] => {
+  if (samples.length <= k) return samples.map(color => ({ color, count: 1 }));
+
+  let centroids: RGB[] = [];
+  const step = samples.length / k;
+  for (let i = 0; i < k; i++) centroids.push(samples[Math.floor(i * step)]);
+
+  let counts: number[] = [];
+  for (let iter = 0; iter < iterations; iter++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    samples.forEach(s => {
+      let best = 0;
+      let bestDist = Infinity;
+      centroids.forEach((c, i) => {
+        const d = colorDistance(s, c);
+        if (d < bestDist) { bestDist = d; best = i; }
+      });
+      sums[best][0] += s[0];
+      sums[best][1] += s[1];
+      sums[best][2] += s[2];
+      sums[best][3]++;
+    });
+    centroids = sums.map((sum, i) =>
+      sum[3] === 0 ? centroids[i] : [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]] as RGB
+    );
+    counts = sums.map(sum => sum[3]);
+  }
+
+  return centroids.map((color, i) => ({ color, count: counts[i] }));
+};
+
+/**
+ * WCAG relative luminance, 0 (black) to 1 (white).
+ */
+export const relativeLuminance = (rgb: RGB) => {
+  const [r, g, b] = rgb.map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * WCAG contrast ratio between two colors, 1 (none) to 21 (black on white).
+ */
+export const contrastRatio = (a: RGB, b: RGB) => {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
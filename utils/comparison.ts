@@ -0,0 +1,77 @@
+import { CompareVariant, CompositionAnalysis, ElementType, LayerData } from "../types";
+import { csvCell } from "./batchExport";
+import { eyeContactScore } from "./faces";
+
+export interface ScoreMetric {
+  key: string;
+  label: string;
+  score: (analysis: CompositionAnalysis, layers?: LayerData[]) => number; // Layers carry the per-person faces
+}
+
+export const contrastScore = (level: string) => level === "High" ? 90 : level === "Medium" ? 60 : 30;
+
+/**
+ * The axes of the score radar. Shared by the analysis panel and compare mode so
+ * both always plot the same numbers.
+ */
+export const RADAR_METRICS: ScoreMetric[] = [
+  { key: "ruleOfThirds", label: "Rule of 3rds", score: a => a.ruleOfThirdsScore },
+  { key: "balance", label: "Balance", score: a => a.visualBalanceScore },
+  { key: "contrast", label: "Contrast", score: a => contrastScore(a.contrastLevel) },
+  { key: "eyeContact", label: "Eye Contact", score: eyeContactScore },
+];
+
+/**
+ * Ids of the variants with the best score on a metric. Empty when every
+ * variant ties, since then nobody "wins".
+ */
+export const metricWinners = (variants: CompareVariant[], metric: ScoreMetric): string[] => {
+  if (variants.length < 2) return [];
+  const scores = variants.map(v => metric.score(v.result.analysis, v.result.layers));
+  const best = Math.max(...scores);
+  const winners = variants.filter((_, i) => scores[i] === best).map(v => v.id);
+  return winners.length === variants.length ? [] : winners;
+};
+
+export const typeBreakdown = (variant: CompareVariant): Record<ElementType, number> => {
+  const counts = Object.fromEntries(Object.values(ElementType).map(t => [t, 0])) as Record<ElementType, number>;
+  variant.result.layers.forEach(l => { counts[l.type] = (counts[l.type] ?? 0) + 1; });
+  return counts;
+};
+
+export const overallScore = (analysis: CompositionAnalysis, layers?: LayerData[]) =>
+  Math.round(RADAR_METRICS.reduce((acc, m) => acc + m.score(analysis, layers), 0) / RADAR_METRICS.length);
+
+/**
+ * Side-by-side summary suitable for export: per-variant scores, palettes and
+ * layer breakdowns plus the winner of each metric.
+ */
+export const buildComparison = (variants: CompareVariant[]) => ({
+  generatedAt: new Date().toISOString(),
+  variants: variants.map(v => ({
+    name: v.name,
+    overall: overallScore(v.result.analysis, v.result.layers),
+    scores: Object.fromEntries(RADAR_METRICS.map(m => [m.key, m.score(v.result.analysis, v.result.layers)])),
+    dominantColors: v.result.analysis.dominantColors,
+    layerCount: v.result.layers.length,
+    layerTypes: typeBreakdown(v),
+  })),
+  winners: Object.fromEntries(RADAR_METRICS.map(m => [
+    m.key,
+    metricWinners(variants, m).map(id => variants.find(v => v.id === id)!.name),
+  ])),
+});
+
+export const comparisonToCsv = (variants: CompareVariant[]): string => {
+  const header = ["metric", ...variants.map(v => v.name)];
+  const rows = [
+    ...RADAR_METRICS.map(m => [m.label, ...variants.map(v => m.score(v.result.analysis, v.result.layers))]),
+    ["Overall", ...variants.map(v => overallScore(v.result.analysis, v.result.layers))],
+    ["Layers", ...variants.map(v => v.result.layers.length)],
+    ...Object.values(ElementType).map(t => [`${t} layers`, ...variants.map(v => typeBreakdown(v)[t])]),
+    ["Palette", ...variants.map(v => v.result.analysis.dominantColors.join(" "))],
+  ];
+  return [header, ...rows]
+    .map(row => row.map(csvCell).join(","))
+    .join("\n");
+};
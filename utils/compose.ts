@@ -0,0 +1,289 @@
+import { BlendMode, CompositionDocument, CompositionItem, ItemEffects, LayerData, TextAttributes } from "../types";
+import { renderLayerCanvas } from "./imageProcessing";
+import { drawFittedText } from "./localize";
+import { createCanvas } from "./canvas";
+
+export const EXPORT_SIZES = [
+  { label: "YouTube", width: 1280, height: 720 },
+  { label: "Full HD", width: 1920, height: 1080 },
+  { label: "4K", width: 3840, height: 2160 },
+  { label: "Square", width: 1080, height: 1080 },
+  { label: "Vertical", width: 1080, height: 1920 },
+];
+
+export const BLEND_MODES: BlendMode[] = ["normal", "multiply", "screen", "overlay", "darken", "lighten", "color-dodge", "hard-light", "soft-light"];
+
+const STROKE_ANGLES = 16;
+
+export const noEffects = (): ItemEffects => ({ shadow: null, stroke: null, glow: null });
+
+// Changes whenever the pixels a layer renders to change
+const sourceKey = (layer: LayerData) =>
+  `${layer.id}|${layer.box.xmin},${layer.box.ymin},${layer.box.xmax},${layer.box.ymax}|${layer.maskUrl ?? ""}|${layer.fillUrl ?? ""}`;
+
+// Where the original image lands when cover-fitted to a composition
+const coverFit = (imageElement: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / imageElement.naturalWidth, height / imageElement.naturalHeight);
+  return {
+    width: imageElement.naturalWidth * scale,
+    height: imageElement.naturalHeight * scale,
+    x: (width - imageElement.naturalWidth * scale) / 2,
+    y: (height - imageElement.naturalHeight * scale) / 2,
+  };
+};
+
+/**
+ * An item for a layer cutout, placed where the layer sits in the original
+ * image once that image is cover-fitted to the composition.
+ */
+export const createLayerItem = (
+  imageElement: HTMLImageElement,
+  layer: LayerData,
+  composition: Pick<CompositionDocument, "width" | "height">
+): CompositionItem => {
+  const fit = coverFit(imageElement, composition.width, composition.height);
+  return {
+    id: `item-${layer.id}-${Date.now()}`,
+    layerId: layer.id,
+    label: layer.label,
+    x: fit.x + ((layer.box.xmin + layer.box.xmax) / 2) * fit.width,
+    y: fit.y + ((layer.box.ymin + layer.box.ymax) / 2) * fit.height,
+    width: (layer.box.xmax - layer.box.xmin) * fit.width,
+    height: (layer.box.ymax - layer.box.ymin) * fit.height,
+    scale: 1,
+    rotation: 0,
+    flipX: false,
+    flipY: false,
+    opacity: 1,
+    blendMode: "normal",
+    effects: noEffects(),
+    visible: true,
+  };
+};
+
+/**
+ * Starts a composition from the analysed image: every visible layer becomes an
+ * item, in the original stacking order and position.
+ */
+export const createComposition = (
+  imageElement: HTMLImageElement,
+  layers: LayerData[],
+  width = EXPORT_SIZES[0].width,
+  height = EXPORT_SIZES[0].height
+): CompositionDocument => ({
+  width,
+  height,
+  background: "#000000",
+  items: [...layers]
+    .filter(l => l.visible)
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map(layer => createLayerItem(imageElement, layer, { width, height })),
+});
+
+/**
+ * Changes the canvas size, cover-fitting the existing layout so nothing is
+ * distorted; items keep their position relative to the centre.
+ */
+export const resizeComposition = (composition: CompositionDocument, width: number, height: number): CompositionDocument => {
+  const k = Math.max(width / composition.width, height / composition.height);
+  return {
+    ...composition,
+    width,
+    height,
+    items: composition.items.map(item => ({
+      ...item,
+      x: width / 2 + (item.x - composition.width / 2) * k,
+      y: height / 2 + (item.y - composition.height / 2) * k,
+      width: item.width * k,
+      height: item.height * k,
+      text: item.text && {
+        ...item.text,
+        fontSize: item.text.fontSize * k,
+        stroke: item.text.stroke && { ...item.text.stroke, width: item.text.stroke.width * k },
+      },
+      effects: {
+        shadow: item.effects.shadow && {
+          ...item.effects.shadow,
+          blur: item.effects.shadow.blur * k,
+          offsetX: item.effects.shadow.offsetX * k,
+          offsetY: item.effects.shadow.offsetY * k,
+        },
+        stroke: item.effects.stroke && { ...item.effects.stroke, width: item.effects.stroke.width * k },
+        glow: item.effects.glow && { ...item.effects.glow, blur: item.effects.glow.blur * k },
+      },
+    })),
+  };
+};
+
+/**
+ * A new editable text block centred on the canvas, in the bold outlined style
+ * thumbnails usually use.
+ */
+export const createTextItem = (composition: CompositionDocument, content = "NEW TEXT"): CompositionItem => {
+  const text: TextAttributes = {
+    content,
+    fontSize: Math.round(composition.height / 7),
+    fontWeight: 900,
+    fontFamily: "Impact",
+    fill: "#ffffff",
+    stroke: { color: "#000000", width: Math.max(2, Math.round(composition.height / 180)) },
+    rotation: 0,
+    source: "local",
+  };
+  return {
+    id: `item-text-${Date.now()}`,
+    text,
+    label: content,
+    x: composition.width / 2,
+    y: composition.height / 2,
+    width: composition.width * 0.6,
+    height: composition.height / 4,
+    scale: 1,
+    rotation: 0,
+    flipX: false,
+    flipY: false,
+    opacity: 1,
+    blendMode: "normal",
+    effects: noEffects(),
+    visible: true,
+  };
+};
+
+/**
+ * Whether a point in composition pixels falls inside an item's rotated box.
+ */
+export const hitTestItem = (item: CompositionItem, x: number, y: number) => {
+  const angle = (-item.rotation * Math.PI) / 180;
+  const dx = x - item.x;
+  const dy = y - item.y;
+  const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+  const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+  return Math.abs(localX) <= (item.width * item.scale) / 2 && Math.abs(localY) <= (item.height * item.scale) / 2;
+};
+
+const sizedCanvas = (width: number, height: number) =>
+  createCanvas(Math.max(1, Math.ceil(width)), Math.max(1, Math.ceil(height)));
+
+// The opaque shape of `source` filled with a flat color
+const silhouette = (source: HTMLCanvasElement, color: string) => {
+  const canvas = sizedCanvas(source.width, source.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+  ctx.drawImage(source, 0, 0);
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Draws glow and outline behind the item pixels. The result is padded so the
+ * effects are not clipped; `pad` is the offset of the original pixels.
+ */
+const applyEffects = (source: HTMLCanvasElement, effects: ItemEffects, unit: number) => {
+  const strokeWidth = effects.stroke ? effects.stroke.width * unit : 0;
+  const glowBlur = effects.glow ? effects.glow.blur * unit : 0;
+  const pad = Math.ceil(strokeWidth + glowBlur * 2);
+  const canvas = sizedCanvas(source.width + pad * 2, source.height + pad * 2);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return { canvas, pad };
+
+  if (effects.glow && glowBlur > 0) {
+    const shape = silhouette(source, effects.glow.color);
+    ctx.save();
+    ctx.shadowColor = effects.glow.color;
+    ctx.shadowBlur = glowBlur;
+    // Twice, so the halo is visible on busy backgrounds
+    ctx.drawImage(shape, pad, pad);
+    ctx.drawImage(shape, pad, pad);
+    ctx.restore();
+  }
+
+  if (effects.stroke && strokeWidth > 0) {
+    // Stamp the silhouette around two rings to dilate it without gaps
+    const shape = silhouette(source, effects.stroke.color);
+    for (const radius of [strokeWidth / 2, strokeWidth]) {
+      for (let i = 0; i < STROKE_ANGLES; i++) {
+        const angle = (i / STROKE_ANGLES) * Math.PI * 2;
+        ctx.drawImage(shape, pad + Math.cos(angle) * radius, pad + Math.sin(angle) * radius);
+      }
+    }
+  }
+
+  ctx.drawImage(source, pad, pad);
+  return { canvas, pad };
+};
+
+/**
+ * Renders a composition into a canvas of the requested size. The layout is
+ * cover-fitted, so exporting to another aspect ratio crops the edges.
+ * `sources` caches layer cutouts across renders; pass the same map to keep
+ * interactive previews fast.
+ */
+export const renderComposition = async (
+  imageElement: HTMLImageElement,
+  layers: LayerData[],
+  composition: CompositionDocument,
+  width = composition.width,
+  height = composition.height,
+  sources: Map<string, HTMLCanvasElement> = new Map()
+): Promise<HTMLCanvasElement> => {
+  const canvas = sizedCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  const unit = Math.max(width / composition.width, height / composition.height);
+  const offsetX = (width - composition.width * unit) / 2;
+  const offsetY = (height - composition.height * unit) / 2;
+  ctx.fillStyle = composition.background;
+  ctx.fillRect(0, 0, width, height);
+
+  for (const item of composition.items) {
+    if (!item.visible) continue;
+    const drawWidth = item.width * item.scale * unit;
+    const drawHeight = item.height * item.scale * unit;
+    if (drawWidth < 1 || drawHeight < 1) continue;
+
+    const base = sizedCanvas(drawWidth, drawHeight);
+    const baseCtx = base.getContext("2d");
+    if (!baseCtx) continue;
+
+    if (item.text) {
+      const size = item.scale * unit;
+      drawFittedText(baseCtx, item.text.content, {
+        ...item.text,
+        fontSize: item.text.fontSize * size,
+        stroke: item.text.stroke && { ...item.text.stroke, width: item.text.stroke.width * size },
+      }, { x: 0, y: 0, width: base.width, height: base.height });
+    } else {
+      const layer = layers.find(l => l.id === item.layerId);
+      if (!layer) continue;
+      const key = sourceKey(layer);
+      let source = sources.get(key);
+      if (!source) {
+        source = await renderLayerCanvas(imageElement, layer);
+        sources.set(key, source);
+      }
+      baseCtx.drawImage(source, 0, 0, base.width, base.height);
+    }
+
+    const { canvas: styled, pad } = applyEffects(base, item.effects, unit);
+
+    ctx.save();
+    ctx.translate(offsetX + item.x * unit, offsetY + item.y * unit);
+    ctx.rotate((item.rotation * Math.PI) / 180);
+    ctx.scale(item.flipX ? -1 : 1, item.flipY ? -1 : 1);
+    ctx.globalAlpha = item.opacity;
+    ctx.globalCompositeOperation = item.blendMode === "normal" ? "source-over" : item.blendMode;
+    if (item.effects.shadow) {
+      // Shadow offsets ignore the transform, so the light stays put when items turn
+      ctx.shadowColor = item.effects.shadow.color;
+      ctx.shadowBlur = item.effects.shadow.blur * unit;
+      ctx.shadowOffsetX = item.effects.shadow.offsetX * unit;
+      ctx.shadowOffsetY = item.effects.shadow.offsetY * unit;
+    }
+    ctx.drawImage(styled, -base.width / 2 - pad, -base.height / 2 - pad);
+    ctx.restore();
+  }
+  return canvas;
+};
@@ -0,0 +1,379 @@
+import { BoundingBox, CompositionAnalysis, CompositionDocument, ElementType, LayerData, ProcessingResult } from "../types";
+import { RGB, clusterColorsWithCounts, luma, rgbToHex } from "./color";
+import { createCanvas } from "./canvas";
+
+// Everything pixel-based runs on a small grid; composition metrics don't need more
+const GRID_SIZE = 96;
+const PALETTE_SIZE = 6;
+
+const SUBJECT_TYPES = [ElementType.PERSON, ElementType.TEXT, ElementType.LOGO, ElementType.OBJECT];
+
+// Saliency assumed for text typed into the compositor, which has no source pixels
+const NEW_TEXT_SALIENCY = 0.6;
+
+const POWER_POINTS = [
+  { x: 1 / 3, y: 1 / 3 },
+  { x: 2 / 3, y: 1 / 3 },
+  { x: 1 / 3, y: 2 / 3 },
+  { x: 2 / 3, y: 2 / 3 },
+];
+
+/**
+ * Image-only statistics. These never change for a given image, so they are
+ * computed once and reused when scoring different layer configurations.
+ */
+export interface PixelStats {
+  width: number;
+  height: number;
+  /** Per-cell saliency, row-major, normalized to 0-1 */
+  saliency: Float32Array;
+  dominantColors: string[];
+  contrastLevel: "Low" | "Medium" | "High";
+  brightnessMap: string;
+  /** 5th-95th percentile luminance spread, 0-1 */
+  luminanceRange: number;
+}
+
+export type LayerScores = Pick<CompositionAnalysis, "ruleOfThirdsScore" | "visualBalanceScore" | "visualWeightCenter">;
+
+const srgbToLinear = (v: number) => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const rgbToLab = ([r, g, b]: RGB): RGB => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  const x = f((lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047);
+  const y = f(lr * 0.2126 + lg * 0.7152 + lb * 0.0722);
+  const z = f((lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+const describeBrightness = (grid: Float32Array, width: number, height: number) => {
+  let left = 0, right = 0, top = 0, bottom = 0, total = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = grid[y * width + x];
+      total += v;
+      if (x < width / 2) left += v; else right += v;
+      if (y < height / 2) top += v; else bottom += v;
+    }
+  }
+  const mean = total / (width * height) / 255;
+  const overall = mean > 0.6 ? "Bright" : mean < 0.35 ? "Dark" : "Balanced";
+
+  const horizontal = (left - right) / total;
+  const vertical = (top - bottom) / total;
+  const parts = [`${overall} overall (${Math.round(mean * 100)}% mean luminance)`];
+  if (Math.abs(horizontal) > 0.08) parts.push(`brighter on the ${horizontal > 0 ? "left" : "right"}`);
+  if (Math.abs(vertical) > 0.08) parts.push(`brighter at the ${vertical > 0 ? "top" : "bottom"}`);
+  return parts.join(", ");
+};
+
+/**
+ * Computes palette, luminance contrast and a frequency-tuned saliency map
+ * (distance of each blurred pixel from the mean Lab color of the image).
+ */
+export const computePixelStats = (imageElement: HTMLImageElement): PixelStats => {
+  const aspect = imageElement.naturalWidth / Math.max(1, imageElement.naturalHeight);
+  const width = aspect >= 1 ? GRID_SIZE : Math.max(8, Math.round(GRID_SIZE * aspect));
+  const height = aspect >= 1 ? Math.max(8, Math.round(GRID_SIZE / aspect)) : GRID_SIZE;
+
+  const canvas = createCanvas();
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(imageElement, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const cells = width * height;
+  const colors: RGB[] = [];
+  const labs: RGB[] = [];
+  const lumas = new Float32Array(cells);
+  const mean: RGB = [0, 0, 0];
+  for (let i = 0; i < cells; i++) {
+    const rgb: RGB = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+    const lab = rgbToLab(rgb);
+    colors.push(rgb);
+    labs.push(lab);
+    lumas[i] = luma(rgb);
+    mean[0] += lab[0] / cells;
+    mean[1] += lab[1] / cells;
+    mean[2] += lab[2] / cells;
+  }
+
+  // Saliency: Lab distance from the mean after a 3x3 blur
+  const saliency = new Float32Array(cells);
+  let maxSaliency = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const blurred = [0, 0, 0];
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const lab = labs[ny * width + nx];
+          blurred[0] += lab[0];
+          blurred[1] += lab[1];
+          blurred[2] += lab[2];
+          count++;
+        }
+      }
+      const d = Math.hypot(blurred[0] / count - mean[0], blurred[1] / count - mean[1], blurred[2] / count - mean[2]);
+      saliency[y * width + x] = d;
+      if (d > maxSaliency) maxSaliency = d;
+    }
+  }
+  if (maxSaliency > 0) {
+    for (let i = 0; i < cells; i++) saliency[i] /= maxSaliency;
+  }
+
+  // Contrast from the luminance histogram
+  const histogram = new Array(256).fill(0);
+  lumas.forEach(v => histogram[Math.min(255, Math.round(v))]++);
+  const percentile = (p: number) => {
+    let acc = 0;
+    for (let i = 0; i < 256; i++) {
+      acc += histogram[i];
+      if (acc >= cells * p) return i;
+    }
+    return 255;
+  };
+  const luminanceRange = (percentile(0.95) - percentile(0.05)) / 255;
+  const contrastLevel = luminanceRange > 0.65 ? "High" : luminanceRange > 0.4 ? "Medium" : "Low";
+
+  // Palette via k-means, most frequent first, ignoring negligible clusters
+  const dominantColors = clusterColorsWithCounts(colors, PALETTE_SIZE)
+    .filter(c => c.count / cells > 0.03)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5)
+    .map(c => rgbToHex(c.color));
+
+  return {
+    width,
+    height,
+    saliency,
+    dominantColors,
+    contrastLevel,
+    brightnessMap: describeBrightness(lumas, width, height),
+    luminanceRange,
+  };
+};
+
+const meanSaliency = (stats: PixelStats, layer: LayerData) => {
+  const x0 = Math.floor(layer.box.xmin * stats.width);
+  const x1 = Math.max(x0 + 1, Math.ceil(layer.box.xmax * stats.width));
+  const y0 = Math.floor(layer.box.ymin * stats.height);
+  const y1 = Math.max(y0 + 1, Math.ceil(layer.box.ymax * stats.height));
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.max(0, y0); y < Math.min(stats.height, y1); y++) {
+    for (let x = Math.max(0, x0); x < Math.min(stats.width, x1); x++) {
+      sum += stats.saliency[y * stats.width + x];
+      count++;
+    }
+  }
+  return count ? sum / count : 0;
+};
+
+const boxArea = (box: BoundingBox) => (box.xmax - box.xmin) * (box.ymax - box.ymin);
+
+// Saliency per box, per image; only boxes that changed since the last score are re-read
+const saliencyCache = new WeakMap<PixelStats, Map<string, number>>();
+
+const cachedSaliency = (stats: PixelStats, layer: LayerData) => {
+  let cache = saliencyCache.get(stats);
+  if (!cache) {
+    cache = new Map();
+    saliencyCache.set(stats, cache);
+  }
+  const key = `${layer.box.xmin},${layer.box.ymin},${layer.box.xmax},${layer.box.ymax}`;
+  let value = cache.get(key);
+  if (value === undefined) {
+    value = meanSaliency(stats, layer);
+    cache.set(key, value);
+  }
+  return value;
+};
+
+/**
+ * Visual mass of a layer: its area, boosted by how much it stands out.
+ */
+export const layerMass = (stats: PixelStats, layer: LayerData) =>
+  boxArea(layer.box) * (0.3 + cachedSaliency(stats, layer));
+
+/**
+ * The point of a subject that matters for placement: faces sit in the upper
+ * part of a person box, everything else is judged by its centre.
+ */
+export const subjectAnchor = (layer: Pick<LayerData, "type" | "box">) => ({
+  x: (layer.box.xmin + layer.box.xmax) / 2,
+  y: layer.type === ElementType.PERSON
+    ? layer.box.ymin + (layer.box.ymax - layer.box.ymin) * 0.25
+    : (layer.box.ymin + layer.box.ymax) / 2,
+});
+
+const saliencyCentroid = (stats: PixelStats) => {
+  let sx = 0, sy = 0, total = 0;
+  for (let y = 0; y < stats.height; y++) {
+    for (let x = 0; x < stats.width; x++) {
+      const v = stats.saliency[y * stats.width + x];
+      sx += v * (x + 0.5) / stats.width;
+      sy += v * (y + 0.5) / stats.height;
+      total += v;
+    }
+  }
+  return total > 0 ? { x: sx / total, y: sy / total } : { x: 0.5, y: 0.5 };
+};
+
+interface WeightedSubject {
+  anchor: { x: number; y: number };
+  center: { x: number; y: number };
+  mass: number;
+}
+
+const weighSubject = (layer: Pick<LayerData, "type" | "box">, mass: number): WeightedSubject => ({
+  anchor: subjectAnchor(layer),
+  center: { x: (layer.box.xmin + layer.box.xmax) / 2, y: (layer.box.ymin + layer.box.ymax) / 2 },
+  mass,
+});
+
+const scoreSubjects = (stats: PixelStats, subjects: WeightedSubject[]): LayerScores => {
+  const fallback = saliencyCentroid(stats);
+  const weighted = subjects.length > 0 ? subjects : [{ anchor: fallback, center: fallback, mass: 1 }];
+
+  const totalMass = weighted.reduce((acc, w) => acc + w.mass, 0) || 1;
+  const center = weighted.reduce(
+    (acc, w) => ({ x: acc.x + w.center.x * w.mass / totalMass, y: acc.y + w.center.y * w.mass / totalMass }),
+    { x: 0, y: 0 }
+  );
+
+  // Balance: how far the weight center drifts from the frame center (vertical drift matters less)
+  const offset = Math.hypot(center.x - 0.5, (center.y - 0.5) * 0.6);
+  const visualBalanceScore = Math.round(100 * (1 - Math.min(1, offset / 0.35)));
+
+  // Rule of thirds: mass-weighted closeness of each subject to its nearest power point
+  const thirds = weighted.reduce((acc, w) => {
+    const distance = Math.min(...POWER_POINTS.map(p => Math.hypot(w.anchor.x - p.x, w.anchor.y - p.y)));
+    return acc + Math.max(0, 1 - distance / 0.2) * w.mass / totalMass;
+  }, 0);
+
+  return {
+    ruleOfThirdsScore: Math.round(thirds * 100),
+    visualBalanceScore,
+    visualWeightCenter: { x: Math.round(center.x * 100), y: Math.round(center.y * 100) },
+  };
+};
+
+/**
+ * Layer-dependent scores: weight center, balance and rule-of-thirds placement
+ * of the visible key subjects. Falls back to the raw saliency map when there
+ * are no subject layers.
+ */
+export const scoreLayers = (stats: PixelStats, layers: LayerData[]): LayerScores =>
+  scoreSubjects(stats, layers
+    .filter(l => l.visible && SUBJECT_TYPES.includes(l.type))
+    .map(l => weighSubject(l, layerMass(stats, l))));
+
+/**
+ * Scores a recomposed layout. Each item keeps the visual mass of its source
+ * pixels, scaled by how much bigger or smaller it is now, and is judged where
+ * it sits on the new canvas.
+ */
+export const scoreComposition = (
+  stats: PixelStats,
+  layers: LayerData[],
+  composition: CompositionDocument
+): LayerScores => {
+  const subjects = composition.items.flatMap(item => {
+    const source = layers.find(l => l.id === item.layerId);
+    const type = item.text ? ElementType.TEXT : source?.type;
+    if (!item.visible || !type || !SUBJECT_TYPES.includes(type)) return [];
+
+    // Axis-aligned bounds of the rotated item, normalized to the canvas
+    const angle = (item.rotation * Math.PI) / 180;
+    const w = item.width * item.scale;
+    const h = item.height * item.scale;
+    const halfW = (Math.abs(w * Math.cos(angle)) + Math.abs(h * Math.sin(angle))) / 2;
+    const halfH = (Math.abs(w * Math.sin(angle)) + Math.abs(h * Math.cos(angle))) / 2;
+    const box: BoundingBox = {
+      xmin: (item.x - halfW) / composition.width,
+      xmax: (item.x + halfW) / composition.width,
+      ymin: (item.y - halfH) / composition.height,
+      ymax: (item.y + halfH) / composition.height,
+    };
+    const saliency = source && !item.text ? cachedSaliency(stats, source) : NEW_TEXT_SALIENCY;
+    return [weighSubject({ type, box }, boxArea(box) * (0.3 + saliency) * item.opacity)];
+  });
+  return scoreSubjects(stats, subjects);
+};
+
+const buildSuggestions = (stats: PixelStats, scores: LayerScores) => {
+  const suggestions: string[] = [];
+  if (stats.contrastLevel === "Low") {
+    suggestions.push(`Boost contrast: the luminance range only spans ${Math.round(stats.luminanceRange * 100)}% of the scale`);
+  }
+  if (scores.visualBalanceScore < 50) {
+    const { x, y } = scores.visualWeightCenter;
+    const side = Math.abs(x - 50) >= Math.abs(y - 50) ? (x < 50 ? "left" : "right") : (y < 50 ? "top" : "bottom");
+    suggestions.push(`Visual weight is concentrated on the ${side}; counterbalance it with text or an object on the other side`);
+  }
+  if (scores.ruleOfThirdsScore < 50) {
+    suggestions.push("Move the main subject closer to a rule-of-thirds intersection");
+  }
+  if (stats.dominantColors.length >= 5) {
+    suggestions.push("The palette is busy; consider limiting it to 2-3 strong colors");
+  }
+  if (suggestions.length === 0) {
+    suggestions.push("Composition metrics look healthy; focus on text legibility at small sizes");
+  }
+  return suggestions;
+};
+
+/**
+ * Deterministic, pixel-based CompositionAnalysis. Pass precomputed stats to
+ * avoid re-reading the image when only the layers changed.
+ */
+export const analyzeComposition = (
+  imageElement: HTMLImageElement,
+  layers: LayerData[],
+  stats: PixelStats = computePixelStats(imageElement)
+): CompositionAnalysis => {
+  const scores = scoreLayers(stats, layers);
+  return {
+    ...scores,
+    dominantColors: stats.dominantColors,
+    brightnessMap: stats.brightnessMap,
+    contrastLevel: stats.contrastLevel,
+    suggestions: buildSuggestions(stats, scores),
+    // Gaze can't be judged from these heuristics
+    eyeContact: false,
+    source: "local",
+  };
+};
+
+/**
+ * Stand-in result when no AI provider is usable: a single full-frame background
+ * layer plus the heuristic analysis.
+ */
+export const buildLocalResult = (imageElement: HTMLImageElement): ProcessingResult => {
+  const layers: LayerData[] = [{
+    id: `layer-bg-${Date.now()}`,
+    label: "Full Frame",
+    type: ElementType.BACKGROUND,
+    confidence: 1,
+    box: { ymin: 0, xmin: 0, ymax: 1, xmax: 1 },
+    zIndex: 0,
+    dominantColor: "#000000",
+    visible: true,
+  }];
+  const analysis = analyzeComposition(imageElement, layers);
+  layers[0].dominantColor = analysis.dominantColors[0] ?? "#000000";
+  return { layers, analysis };
+};
@@ -0,0 +1,88 @@
+import { BoundingBox, CompositionAnalysis, ElementType, Emotion, FaceAttributes, GazeDirection, LayerData } from "../types";
+import { clampBox } from "./imageProcessing";
+
+// A face this close to the frame edge (normalized) is treated as cut off
+const EDGE_MARGIN = 0.005;
+// Typical head proportions inside a person box, used when no model is available
+const HEAD_WIDTH_SHARE = 0.45;
+const HEAD_ASPECT = 1.25; // Height over width, in pixels
+const MAX_HEAD_HEIGHT_SHARE = 0.5;
+
+export const EMOTIONS: Emotion[] = ["joy", "surprise", "anger", "fear", "sadness", "disgust", "neutral"];
+
+export const GAZE_DIRECTIONS: GazeDirection[] = ["camera", "left", "right", "up", "down", "away", "unknown"];
+
+export const GAZE_ARROWS: Record<GazeDirection, string> = {
+  camera: "◉",
+  left: "←",
+  right: "→",
+  up: "↑",
+  down: "↓",
+  away: "↗",
+  unknown: "?",
+};
+
+// Eye Contact axis value per gaze; a look off-frame still beats one at the floor
+const GAZE_SCORES: Record<Exclude<GazeDirection, "unknown">, number> = {
+  camera: 100,
+  left: 45,
+  right: 45,
+  up: 35,
+  down: 30,
+  away: 20,
+};
+
+/** Size and frame clipping follow from the box alone, so they are never left to the model. */
+export const faceGeometry = (box: BoundingBox): Pick<FaceAttributes, "sizePercent" | "cutOff"> => ({
+  sizePercent: Math.round((box.xmax - box.xmin) * (box.ymax - box.ymin) * 1000) / 10,
+  cutOff: box.xmin <= EDGE_MARGIN || box.ymin <= EDGE_MARGIN || box.xmax >= 1 - EDGE_MARGIN || box.ymax >= 1 - EDGE_MARGIN,
+});
+
+/**
+ * Guesses the face of a PERSON layer from typical proportions: a head centered
+ * at the top of the box. Gaze and expression can't be read from geometry, so
+ * they stay unknown / neutral with zero confidence.
+ */
+export const estimateFace = (imageElement: HTMLImageElement, layer: LayerData): FaceAttributes => {
+  const { box } = layer;
+  const width = (box.xmax - box.xmin) * HEAD_WIDTH_SHARE;
+  const aspect = imageElement.naturalWidth / Math.max(1, imageElement.naturalHeight);
+  const height = Math.min(width * HEAD_ASPECT * aspect, (box.ymax - box.ymin) * MAX_HEAD_HEIGHT_SHARE);
+  const center = (box.xmin + box.xmax) / 2;
+  const face = clampBox({
+    xmin: center - width / 2,
+    xmax: center + width / 2,
+    ymin: box.ymin,
+    ymax: box.ymin + height,
+  });
+
+  return {
+    box: face,
+    gaze: "unknown",
+    emotion: "neutral",
+    emotionConfidence: 0,
+    ...faceGeometry(face),
+    source: "local",
+  };
+};
+
+/**
+ * Eye Contact axis of the score radar. With per-layer faces it is the mean gaze
+ * score of the visible people, weighted by face size so the hero shot counts
+ * most; otherwise it falls back to the image-wide flag.
+ */
+export const eyeContactScore = (analysis: CompositionAnalysis, layers?: LayerData[]): number => {
+  const faces = (layers ?? [])
+    .filter(l => l.visible && l.type === ElementType.PERSON && l.face && l.face.gaze !== "unknown")
+    .map(l => l.face!);
+  if (faces.length === 0) return analysis.eyeContact ? 100 : 20;
+
+  let total = 0;
+  let weight = 0;
+  faces.forEach(face => {
+    const w = Math.sqrt(Math.max(0.1, face.sizePercent));
+    total += GAZE_SCORES[face.gaze as Exclude<GazeDirection, "unknown">] * w;
+    weight += w;
+  });
+  return Math.round(total / weight);
+};
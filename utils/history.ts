@@ -0,0 +1,92 @@
+import { LayerData } from "../types";
+
+/**
+ * A reversible edit to the layer list. Commands are pure: they take the
+ * current layers and return new ones, so they can be replayed in either direction.
+ */
+export interface LayerCommand {
+  label: string;
+  apply: (layers: LayerData[]) => LayerData[];
+  revert: (layers: LayerData[]) => LayerData[];
+}
+
+export interface HistoryState {
+  past: LayerCommand[];
+  future: LayerCommand[];
+}
+
+export const emptyHistory: HistoryState = { past: [], future: [] };
+
+const MAX_HISTORY = 100;
+
+const byZIndex = (a: LayerData, b: LayerData) => a.zIndex - b.zIndex;
+
+const patchLayer = (layers: LayerData[], id: string, patch: Partial<LayerData>) =>
+  layers.map(l => l.id === id ? { ...l, ...patch } : l);
+
+export const toggleVisibilityCommand = (layer: LayerData): LayerCommand => ({
+  label: `${layer.visible ? "Hide" : "Show"} "${layer.label}"`,
+  apply: layers => patchLayer(layers, layer.id, { visible: !layer.visible }),
+  revert: layers => patchLayer(layers, layer.id, { visible: layer.visible }),
+});
+
+/**
+ * Generic field update (rename, box edit, ...). `before` must hold the previous
+ * value of every key present in `after`.
+ */
+export const updateLayerCommand = (
+  label: string,
+  id: string,
+  before: Partial<LayerData>,
+  after: Partial<LayerData>
+): LayerCommand => ({
+  label,
+  apply: layers => patchLayer(layers, id, after),
+  revert: layers => patchLayer(layers, id, before),
+});
+
+export const addLayersCommand = (label: string, added: LayerData[]): LayerCommand => {
+  const ids = new Set(added.map(l => l.id));
+  return {
+    label,
+    apply: layers => [...layers, ...added].sort(byZIndex),
+    revert: layers => layers.filter(l => !ids.has(l.id)),
+  };
+};
+
+export const removeLayersCommand = (label: string, removed: LayerData[]): LayerCommand => {
+  const ids = new Set(removed.map(l => l.id));
+  return {
+    label,
+    apply: layers => layers.filter(l => !ids.has(l.id)),
+    revert: layers => [...layers, ...removed].sort(byZIndex),
+  };
+};
+
+/**
+ * Rewrites the stacking order. `before` and `after` map layer ids to zIndex.
+ */
+export const reorderCommand = (
+  label: string,
+  before: Record<string, number>,
+  after: Record<string, number>
+): LayerCommand => {
+  const reorder = (order: Record<string, number>) => (layers: LayerData[]) =>
+    layers.map(l => l.id in order ? { ...l, zIndex: order[l.id] } : l).sort(byZIndex);
+  return { label, apply: reorder(after), revert: reorder(before) };
+};
+
+/**
+ * Groups several commands into a single history entry (e.g. a merge is
+ * "remove the sources" + "add the merged layer").
+ */
+export const compositeCommand = (label: string, commands: LayerCommand[]): LayerCommand => ({
+  label,
+  apply: layers => commands.reduce((acc, c) => c.apply(acc), layers),
+  revert: layers => commands.reduceRight((acc, c) => c.revert(acc), layers),
+});
+
+export const pushCommand = (history: HistoryState, command: LayerCommand): HistoryState => ({
+  past: [...history.past, command].slice(-MAX_HISTORY),
+  future: [],
+});
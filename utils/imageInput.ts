@@ -0,0 +1,199 @@
+import { loadImage, readFileAsDataUrl } from "./imageProcessing";
+import { createCanvas } from "./canvas";
+
+export interface ImagePayload {
+  data: string; // Raw base64, without the Data URL prefix
+  mimeType: string;
+}
+
+// Formats every browser displays and every provider accepts without conversion
+const PASSTHROUGH_TYPES = ["image/jpeg", "image/png", "image/webp"];
+// Formats we can decode (natively or via heic2any) and re-encode on the client
+const CONVERTIBLE_TYPES = ["image/gif", "image/bmp", "image/avif", "image/heic", "image/svg+xml"];
+const CONVERTIBLE_EXTENSIONS = ["heic", "heif", "avif"];
+
+// The model never needs more than this; full resolution is kept for cropping
+const MAX_UPLOAD_EDGE = 2048;
+const MAX_UPLOAD_BASE64 = 4 * 1024 * 1024;
+const SVG_FALLBACK_WIDTH = 1280;
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * Sniffs the real image format from its first bytes, ignoring the (often wrong
+ * or empty) type the browser derived from the file extension.
+ */
+export const detectImageType = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 4) === "PNG") return "image/png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 0, 2) === "BM") return "image/bmp";
+
+  // ISO base media files (HEIC/AVIF) carry their brand right after "ftyp"
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"].includes(brand)) return "image/heic";
+  }
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024)).trimStart();
+  if (head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"))) return "image/svg+xml";
+  return null;
+};
+
+/**
+ * Reads the EXIF orientation (1-8) of a JPEG. Returns null when the file has no
+ * readable EXIF block, 1 when it has one without an orientation tag.
+ */
+export const readJpegOrientation = (bytes: Uint8Array): number | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 < view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: no metadata past this point
+    if (marker === 0xffda) return null;
+
+    if (marker === 0xffe1 && ascii(bytes, offset + 4, offset + 10) === "Exif\0\0") {
+      const tiff = offset + 10;
+      // Truncated or corrupt headers count as no orientation instead of throwing
+      if (tiff + 8 > view.byteLength) return null;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return null;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Whether a file looks like something prepareImageFile can handle. Some systems
+ * report HEIC/AVIF with an empty type, so the extension is checked as well.
+ */
+export const isImageFile = (file: File): boolean => {
+  if (file.type.startsWith("image/")) return true;
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return CONVERTIBLE_EXTENSIONS.includes(extension);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode image")), type, quality);
+  });
+
+// HEIC only decodes natively in Safari; elsewhere the converter is loaded on demand
+const decodeHeic = async (blob: Blob): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(blob, { imageOrientation: "from-image" });
+  } catch {
+    const { default: heic2any } = await import("heic2any");
+    const converted = await heic2any({ blob, toType: "image/png" });
+    return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+  }
+};
+
+const decodeSvg = async (blob: Blob): Promise<HTMLCanvasElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    // SVGs without width/height have no intrinsic size; assume a 16:9 frame
+    const width = img.naturalWidth || SVG_FALLBACK_WIDTH;
+    const height = img.naturalHeight || Math.round(width * 9 / 16);
+    const canvas = createCanvas();
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(img, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const bitmapToCanvas = (bitmap: ImageBitmap): HTMLCanvasElement => {
+  const canvas = createCanvas();
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+/**
+ * Reads a user-supplied image into a Data URL the rest of the app can rely on:
+ * the MIME type matches the bytes, unsupported formats (HEIC, AVIF, GIF, BMP,
+ * SVG) are converted, and EXIF is stripped with its orientation baked into the
+ * pixels so boxes line up with naturalWidth/naturalHeight. Resolution is kept.
+ */
+export const prepareImageFile = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const type = detectImageType(bytes);
+
+  if (!type || (!PASSTHROUGH_TYPES.includes(type) && !CONVERTIBLE_TYPES.includes(type))) {
+    throw new Error("Unsupported image format. Use JPG, PNG, WEBP, GIF, AVIF, HEIC or SVG.");
+  }
+
+  const orientation = type === "image/jpeg" ? readJpegOrientation(bytes) : null;
+  if (PASSTHROUGH_TYPES.includes(type) && orientation === null) {
+    return readFileAsDataUrl(new Blob([bytes], { type }));
+  }
+
+  const blob = new Blob([bytes], { type });
+  let canvas: HTMLCanvasElement;
+  try {
+    if (type === "image/svg+xml") {
+      canvas = await decodeSvg(blob);
+    } else if (type === "image/heic") {
+      canvas = bitmapToCanvas(await decodeHeic(blob));
+    } else {
+      // GIFs decode to their first frame
+      canvas = bitmapToCanvas(await createImageBitmap(blob, { imageOrientation: "from-image" }));
+    }
+  } catch (err) {
+    console.error("Image Decode Error:", err);
+    throw new Error(`This browser cannot decode ${type.replace("image/", "").toUpperCase()} images. Please convert it to JPG or PNG.`);
+  }
+
+  // Photos stay JPEG; anything that may carry transparency becomes PNG
+  const photo = type === "image/jpeg" || type === "image/heic";
+  return readFileAsDataUrl(await canvasToBlob(canvas, photo ? "image/jpeg" : "image/png", 0.95));
+};
+
+/**
+ * Builds the image sent to the model: the original bytes when they are small
+ * enough and in a format the provider accepts, otherwise a downsized JPEG.
+ * Boxes are normalized, so the smaller copy maps back onto the full image.
+ */
+export const buildUploadPayload = async (dataUrl: string, acceptedTypes: string[]): Promise<ImagePayload> => {
+  const [header, data] = dataUrl.split(",");
+  const mimeType = header.slice("data:".length).split(";")[0];
+  const img = await loadImage(dataUrl);
+  const longEdge = Math.max(img.naturalWidth, img.naturalHeight);
+
+  if (acceptedTypes.includes(mimeType) && longEdge <= MAX_UPLOAD_EDGE && data.length <= MAX_UPLOAD_BASE64) {
+    return { data, mimeType };
+  }
+
+  const scale = Math.min(1, MAX_UPLOAD_EDGE / longEdge);
+  const canvas = createCanvas();
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  // JPEG has no alpha; flatten onto white rather than black
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return { data: canvas.toDataURL("image/jpeg", 0.9).split(",")[1], mimeType: "image/jpeg" };
+};
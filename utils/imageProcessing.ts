@@ -1,4 +1,61 @@
-import { BoundingBox } from "../types";
+import { BoundingBox, LayerData } from "../types";
+import { createCanvas, decodeImage } from "./canvas";
+
+const MIN_BOX_SIZE = 0.005;
+
+/**
+ * Clamps a normalized box to the 0-1 frame, fixing inverted edges and
+ * enforcing a minimal size so it can always be cropped.
+ */
+export const clampBox = (box: BoundingBox): BoundingBox => {
+  const clamp = (v: number) => Math.min(1, Math.max(0, Number.isFinite(v) ? v : 0));
+  let xmin = clamp(Math.min(box.xmin, box.xmax));
+  let xmax = clamp(Math.max(box.xmin, box.xmax));
+  let ymin = clamp(Math.min(box.ymin, box.ymax));
+  let ymax = clamp(Math.max(box.ymin, box.ymax));
+
+  if (xmax - xmin < MIN_BOX_SIZE) {
+    xmax = Math.min(1, xmin + MIN_BOX_SIZE);
+    xmin = xmax - MIN_BOX_SIZE;
+  }
+  if (ymax - ymin < MIN_BOX_SIZE) {
+    ymax = Math.min(1, ymin + MIN_BOX_SIZE);
+    ymin = ymax - MIN_BOX_SIZE;
+  }
+  return { xmin, ymin, xmax, ymax };
+};
+
+/**
+ * Computes the average color inside a normalized box as a hex string.
+ */
+export const averageColor = (imageElement: HTMLImageElement, box: BoundingBox): string => {
+  const canvas = createCanvas();
+  canvas.width = 16;
+  canvas.height = 16;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return "#808080";
+
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  ctx.drawImage(
+    imageElement,
+    box.xmin * width,
+    box.ymin * height,
+    Math.max(1, (box.xmax - box.xmin) * width),
+    Math.max(1, (box.ymax - box.ymin) * height),
+    0, 0, 16, 16
+  );
+
+  const { data } = ctx.getImageData(0, 0, 16, 16);
+  const sum = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  const pixels = data.length / 4;
+  return "#" + sum.map(v => Math.round(v / pixels).toString(16).padStart(2, "0")).join("");
+};
 
 /**
  * Extracts a crop from the source image based on a normalized bounding box.
@@ -8,7 +65,7 @@ export const cropLayer = (
   imageElement: HTMLImageElement,
   box: BoundingBox
 ): string => {
-  const canvas = document.createElement("canvas");
+  const canvas = createCanvas();
   const ctx = canvas.getContext("2d");
 
   if (!ctx) return "";
@@ -22,6 +79,9 @@ export const cropLayer = (
   const sw = (box.xmax - box.xmin) * width;
   const sh = (box.ymax - box.ymin) * height;
 
+  // A zero-size canvas cannot be encoded; callers treat "" as "no preview"
+  if (sw < 1 || sh < 1) return "";
+
   // Add a small padding to ensure we capture edges, but clip to bounds
   const padding = 0; 
 
@@ -43,6 +103,143 @@ export const cropLayer = (
   return canvas.toDataURL("image/png");
 };
 
+/**
+ * Loads an image from a URL (typically a Data URL) and resolves once decoded.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => decodeImage(src);
+
+/**
+ * Reads a File (or any Blob) into a Data URL.
+ */
+export const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+/**
+ * Renders a small JPEG preview of an image, e.g. for library grids.
+ */
+export const createThumbnail = (imageElement: HTMLImageElement, maxWidth = 320): string => {
+  const scale = Math.min(1, maxWidth / imageElement.naturalWidth);
+  const canvas = createCanvas();
+  canvas.width = Math.max(1, Math.round(imageElement.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(imageElement.naturalHeight * scale));
+  canvas.getContext("2d")?.drawImage(imageElement, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.8);
+};
+
+/**
+ * Draws a decoded alpha mask over a crop canvas, keeping only the masked pixels.
+ * The mask is stretched to the canvas size, so low-resolution masks are fine.
+ */
+export const applyMask = (canvas: HTMLCanvasElement, mask: HTMLImageElement) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.save();
+  ctx.globalCompositeOperation = "destination-in";
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+  ctx.restore();
+};
+
+/**
+ * Combines the masks of several layers into one alpha mask covering `box`.
+ * Layers without a mask contribute their full rectangle.
+ */
+export const mergeMasks = async (
+  imageElement: HTMLImageElement,
+  layers: LayerData[],
+  box: BoundingBox
+): Promise<string> => {
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  const canvas = createCanvas();
+  canvas.width = Math.max(1, Math.round((box.xmax - box.xmin) * width));
+  canvas.height = Math.max(1, Math.round((box.ymax - box.ymin) * height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+
+  ctx.fillStyle = "#ffffff";
+  for (const layer of layers) {
+    const x = (layer.box.xmin - box.xmin) * width;
+    const y = (layer.box.ymin - box.ymin) * height;
+    const w = (layer.box.xmax - layer.box.xmin) * width;
+    const h = (layer.box.ymax - layer.box.ymin) * height;
+    if (layer.maskUrl) {
+      ctx.drawImage(await loadImage(layer.maskUrl), x, y, w, h);
+    } else {
+      ctx.fillRect(x, y, w, h);
+    }
+  }
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * Renders a layer into a canvas sized to its box, with the mask applied when present.
+ * A layer with a fill (e.g. a clean plate) draws those pixels instead of the original.
+ */
+export const renderLayerCanvas = async (
+  imageElement: HTMLImageElement,
+  layer: LayerData
+): Promise<HTMLCanvasElement> => {
+  const { box } = layer;
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+
+  const canvas = createCanvas();
+  canvas.width = Math.max(1, Math.round((box.xmax - box.xmin) * width));
+  canvas.height = Math.max(1, Math.round((box.ymax - box.ymin) * height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  if (layer.fillUrl) {
+    ctx.drawImage(await loadImage(layer.fillUrl), 0, 0, canvas.width, canvas.height);
+  } else {
+    ctx.drawImage(
+      imageElement,
+      box.xmin * width,
+      box.ymin * height,
+      (box.xmax - box.xmin) * width,
+      (box.ymax - box.ymin) * height,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+  }
+
+  if (layer.maskUrl) {
+    applyMask(canvas, await loadImage(layer.maskUrl));
+  }
+  return canvas;
+};
+
+/**
+ * Extracts a layer as a transparent PNG cutout when it has a mask,
+ * or as a plain rectangular crop otherwise. Returns a Data URL.
+ */
+export const cutoutLayer = async (
+  imageElement: HTMLImageElement,
+  layer: LayerData
+): Promise<string> => {
+  const canvas = await renderLayerCanvas(imageElement, layer);
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * Turns a layer label into a file-system friendly name.
+ */
+export const toFileName = (label: string) =>
+  label.trim().replace(/\s+/g, "_").replace(/[^\w.-]/g, "") || "layer";
+
 /**
  * Utility to download data as a file
  */
@@ -54,3 +251,13 @@ export const downloadFile = (dataUrl: string, filename: string) => {
   link.click();
   document.body.removeChild(link);
 };
+
+
+/**
+ * Utility to download binary data (e.g. a generated archive) as a file
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadFile(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
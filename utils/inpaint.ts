@@ -0,0 +1,192 @@
+import { BoundingBox } from "../types";
+
+// Extra pixels filled around each region, so anti-aliased edges and outlines go too
+const REGION_PADDING = 3;
+const SMOOTHING_PASSES = 4;
+const NEIGHBOUR_OFFSETS = [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+/**
+ * Fills the pixels flagged in `mask` (1 = fill) from their surroundings, in place.
+ * Onion-peel diffusion: each pass fills the unknown pixels bordering known ones
+ * with the average of their known neighbours, then a few smoothing passes hide
+ * the rings. Good enough for flat or gradient backgrounds behind text.
+ */
+export const inpaint = (image: ImageData, mask: Uint8Array) => {
+  const { width, height, data } = image;
+  const known = new Uint8Array(width * height);
+  for (let i = 0; i < known.length; i++) known[i] = mask[i] ? 0 : 1;
+
+  const forNeighbours = (i: number, visit: (j: number) => void) => {
+    const x = i % width;
+    const y = (i - x) / width;
+    for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx >= 0 && ny >= 0 && nx < width && ny < height) visit(ny * width + nx);
+    }
+  };
+
+  // Start from the hole pixels touching known ones, then peel inwards ring by ring
+  let frontier: number[] = [];
+  const queued = new Uint8Array(width * height);
+  for (let i = 0; i < known.length; i++) {
+    if (known[i]) continue;
+    let touches = false;
+    forNeighbours(i, j => { if (known[j]) touches = true; });
+    if (touches) {
+      frontier.push(i);
+      queued[i] = 1;
+    }
+  }
+
+  while (frontier.length > 0) {
+    for (const i of frontier) {
+      let r = 0, g = 0, b = 0, n = 0;
+      forNeighbours(i, j => {
+        if (!known[j]) return;
+        r += data[j * 4];
+        g += data[j * 4 + 1];
+        b += data[j * 4 + 2];
+        n++;
+      });
+      if (n === 0) continue;
+      data[i * 4] = r / n;
+      data[i * 4 + 1] = g / n;
+      data[i * 4 + 2] = b / n;
+      data[i * 4 + 3] = 255;
+    }
+    const next: number[] = [];
+    frontier.forEach(i => { known[i] = 1; });
+    frontier.forEach(i => forNeighbours(i, j => {
+      if (!known[j] && !queued[j]) {
+        queued[j] = 1;
+        next.push(j);
+      }
+    }));
+    frontier = next;
+  }
+
+  for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+    const source = new Uint8ClampedArray(data);
+    for (let i = 0; i < mask.length; i++) {
+      if (!mask[i]) continue;
+      let r = 0, g = 0, b = 0, n = 0;
+      forNeighbours(i, j => {
+        r += source[j * 4];
+        g += source[j * 4 + 1];
+        b += source[j * 4 + 2];
+        n++;
+      });
+      data[i * 4] = r / n;
+      data[i * 4 + 1] = g / n;
+      data[i * 4 + 2] = b / n;
+    }
+  }
+};
+
+/**
+ * Erases normalized boxes from a canvas by inpainting each one from the pixels
+ * around it. Only a window around each box is read back, to keep it fast.
+ */
+export const inpaintBoxes = (canvas: HTMLCanvasElement, boxes: BoundingBox[]) => {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return;
+
+  boxes.forEach(box => {
+    const x0 = Math.max(0, Math.floor(box.xmin * canvas.width) - REGION_PADDING);
+    const y0 = Math.max(0, Math.floor(box.ymin * canvas.height) - REGION_PADDING);
+    const x1 = Math.min(canvas.width, Math.ceil(box.xmax * canvas.width) + REGION_PADDING);
+    const y1 = Math.min(canvas.height, Math.ceil(box.ymax * canvas.height) + REGION_PADDING);
+    // Read a margin of known pixels around the hole to diffuse from
+    const margin = 2;
+    const wx0 = Math.max(0, x0 - margin);
+    const wy0 = Math.max(0, y0 - margin);
+    const wx1 = Math.min(canvas.width, x1 + margin);
+    const wy1 = Math.min(canvas.height, y1 + margin);
+    const w = wx1 - wx0;
+    const h = wy1 - wy0;
+    if (w <= 0 || h <= 0) return;
+
+    const image = ctx.getImageData(wx0, wy0, w, h);
+    const mask = new Uint8Array(w * h);
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) mask[(y - wy0) * w + (x - wx0)] = 1;
+    }
+    inpaint(image, mask);
+    ctx.putImageData(image, wx0, wy0);
+  });
+};
+
+const DIFFUSION_ITERATIONS = 12;
+const MIN_PYRAMID_SIZE = 32;
+
+/**
+ * Multi-scale diffusion fill for large holes (people, big titles), in place.
+ * The image is halved until the holes are small, filled there with the
+ * onion-peel pass, then upsampled level by level; at each level the coarse
+ * guess seeds the hole and a few diffusion sweeps blend it into the edges.
+ * Avoids the long streaks a single-scale fill leaves in wide regions.
+ */
+export const inpaintMultiScale = (image: ImageData, mask: Uint8Array) => {
+  const { width, height, data } = image;
+  if (width <= MIN_PYRAMID_SIZE * 2 || height <= MIN_PYRAMID_SIZE * 2) {
+    inpaint(image, mask);
+    return;
+  }
+
+  // Coarser level: a pixel is known only when all four children are known
+  const cw = Math.floor(width / 2);
+  const ch = Math.floor(height / 2);
+  const coarse = new ImageData(cw, ch);
+  const coarseMask = new Uint8Array(cw * ch);
+  for (let y = 0; y < ch; y++) {
+    for (let x = 0; x < cw; x++) {
+      const children = [(2 * y) * width + 2 * x, (2 * y) * width + 2 * x + 1, (2 * y + 1) * width + 2 * x, (2 * y + 1) * width + 2 * x + 1];
+      const known = children.filter(i => !mask[i]);
+      const c = (y * cw + x) * 4;
+      coarseMask[y * cw + x] = known.length < children.length ? 1 : 0;
+      for (let k = 0; k < 3; k++) {
+        coarse.data[c + k] = known.length ? known.reduce((acc, i) => acc + data[i * 4 + k], 0) / known.length : 0;
+      }
+      coarse.data[c + 3] = 255;
+    }
+  }
+  inpaintMultiScale(coarse, coarseMask);
+
+  // Seed the hole from the coarse result
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!mask[i]) continue;
+      const c = (Math.min(ch - 1, y >> 1) * cw + Math.min(cw - 1, x >> 1)) * 4;
+      data[i * 4] = coarse.data[c];
+      data[i * 4 + 1] = coarse.data[c + 1];
+      data[i * 4 + 2] = coarse.data[c + 2];
+      data[i * 4 + 3] = 255;
+    }
+  }
+
+  // Diffusion sweeps over the hole only; known pixels act as the boundary
+  const hole: number[] = [];
+  for (let i = 0; i < mask.length; i++) if (mask[i]) hole.push(i);
+  for (let iter = 0; iter < DIFFUSION_ITERATIONS; iter++) {
+    for (const i of hole) {
+      const x = i % width;
+      const y = (i - x) / width;
+      let r = 0, g = 0, b = 0, n = 0;
+      for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const j = (ny * width + nx) * 4;
+        r += data[j];
+        g += data[j + 1];
+        b += data[j + 2];
+        n++;
+      }
+      data[i * 4] = r / n;
+      data[i * 4 + 1] = g / n;
+      data[i * 4 + 2] = b / n;
+    }
+  }
+};
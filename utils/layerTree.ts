@@ -0,0 +1,92 @@
+import { BoundingBox, ElementType, LayerData } from "../types";
+import { mergeMasks } from "./imageProcessing";
+
+export interface LayerRun {
+  group: string | null;
+  layers: LayerData[];
+}
+
+/**
+ * Splits an ordered layer list into runs of consecutive layers sharing a group.
+ * Ungrouped layers each form their own run, so the stacking order is kept exactly.
+ */
+export const groupRuns = (layers: LayerData[]): LayerRun[] =>
+  layers.reduce<LayerRun[]>((runs, layer) => {
+    const last = runs[runs.length - 1];
+    if (layer.group && last?.group === layer.group) {
+      last.layers.push(layer);
+    } else {
+      runs.push({ group: layer.group ?? null, layers: [layer] });
+    }
+    return runs;
+  }, []);
+
+export const unionBox = (layers: LayerData[]): BoundingBox => ({
+  xmin: Math.min(...layers.map(l => l.box.xmin)),
+  ymin: Math.min(...layers.map(l => l.box.ymin)),
+  xmax: Math.max(...layers.map(l => l.box.xmax)),
+  ymax: Math.max(...layers.map(l => l.box.ymax)),
+});
+
+const area = (box: BoundingBox) => (box.xmax - box.xmin) * (box.ymax - box.ymin);
+
+/**
+ * Fuses several layers into one covering their union box, with a combined mask.
+ * The result takes the place of the topmost source in the stack. Text fragments
+ * are joined in reading order, so a title split in three becomes one line again.
+ */
+export const mergeLayers = async (imageElement: HTMLImageElement, sources: LayerData[]): Promise<LayerData> => {
+  const top = sources.reduce((a, b) => b.zIndex > a.zIndex ? b : a);
+  const largest = sources.reduce((a, b) => area(b.box) > area(a.box) ? b : a);
+  const box = unionBox(sources);
+  const groups = new Set(sources.map(l => l.group));
+
+  const label = sources.every(l => l.type === ElementType.TEXT)
+    ? [...sources].sort((a, b) => a.box.ymin - b.box.ymin || a.box.xmin - b.box.xmin).map(l => l.label).join(" ")
+    : top.label;
+
+  return {
+    id: `layer-merged-${Date.now()}`,
+    label,
+    type: top.type,
+    subtype: top.subtype,
+    confidence: Math.min(...sources.map(l => l.confidence)),
+    box,
+    zIndex: top.zIndex,
+    dominantColor: largest.dominantColor,
+    visible: sources.some(l => l.visible),
+    maskUrl: (await mergeMasks(imageElement, sources, box)) || undefined,
+    group: groups.size === 1 ? top.group : undefined,
+  };
+};
+
+// Renumbers the stack from 0 upwards with `moved` inserted at position `at` among the rest
+const insertAt = (layers: LayerData[], movedIds: string[], at: (rest: LayerData[], moved: LayerData[]) => number) => {
+  const ascending = [...layers].sort((a, b) => a.zIndex - b.zIndex);
+  const moved = ascending.filter(l => movedIds.includes(l.id));
+  const rest = ascending.filter(l => !movedIds.includes(l.id));
+  const index = at(rest, moved);
+  const order = [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+  return Object.fromEntries(order.map((l, i) => [l.id, i]));
+};
+
+/**
+ * New zIndex for every layer after moving `movedIds` directly above `targetId`
+ * (or to the very top when the target is null). Returns an id -> zIndex map
+ * suitable for reorderCommand.
+ */
+export const moveLayersAbove = (layers: LayerData[], movedIds: string[], targetId: string | null) =>
+  insertAt(layers, movedIds, rest => targetId === null ? rest.length : rest.findIndex(l => l.id === targetId) + 1);
+
+/**
+ * New zIndex for every layer after pulling `ids` together just below the
+ * topmost of them, so they can form one contiguous group.
+ */
+export const gatherLayers = (layers: LayerData[], ids: string[]) =>
+  insertAt(layers, ids, (rest, moved) => {
+    const top = moved[moved.length - 1].zIndex;
+    return rest.filter(l => l.zIndex <= top).length;
+  });
+
+export const zIndexMap = (layers: LayerData[]): Record<string, number> =>
+  Object.fromEntries(layers.map(l => [l.id, l.zIndex]));
@@ -0,0 +1,114 @@
+import { ElementType, LayerData, TextAttributes } from "../types";
+import { inpaintBoxes } from "./inpaint";
+import { estimateTextStyle } from "./textStyle";
+import { createCanvas } from "./canvas";
+
+const LINE_HEIGHT = 1.2;
+const MIN_FONT_SIZE = 8;
+
+const fontString = (text: TextAttributes, size: number) =>
+  `${text.fontWeight} ${size}px ${text.fontFamily ? `"${text.fontFamily}", ` : ""}Impact, "Arial Black", sans-serif`;
+
+/**
+ * Breaks text into lines no wider than `maxWidth`, keeping explicit line breaks.
+ * A single word wider than the box stays on its own line (the caller shrinks it).
+ */
+const wrapLines = (ctx: CanvasRenderingContext2D, content: string, maxWidth: number): string[] =>
+  content.split("\n").flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = "";
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    return [...lines, line];
+  });
+
+/**
+ * Draws `content` with the layer's typography, shrinking the font until the
+ * wrapped text fits inside the box (the original size is the upper bound).
+ */
+export const drawFittedText = (
+  ctx: CanvasRenderingContext2D,
+  content: string,
+  text: TextAttributes,
+  box: { x: number; y: number; width: number; height: number }
+) => {
+  let size = text.fontSize;
+  let lines: string[] = [];
+  const padding = text.stroke?.width ?? 0;
+  const maxWidth = Math.max(1, box.width - padding * 2);
+  const maxHeight = Math.max(1, box.height - padding * 2);
+
+  for (; size >= MIN_FONT_SIZE; size = Math.floor(size * 0.92)) {
+    ctx.font = fontString(text, size);
+    lines = wrapLines(ctx, content, maxWidth);
+    const widest = Math.max(...lines.map(line => ctx.measureText(line).width));
+    if (widest <= maxWidth && lines.length * size * LINE_HEIGHT <= maxHeight) break;
+  }
+  size = Math.max(size, MIN_FONT_SIZE);
+  ctx.font = fontString(text, size);
+
+  ctx.save();
+  ctx.translate(box.x + box.width / 2, box.y + box.height / 2);
+  ctx.rotate((text.rotation * Math.PI) / 180);
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.lineJoin = "round";
+
+  const top = -((lines.length - 1) * size * LINE_HEIGHT) / 2;
+  lines.forEach((line, i) => {
+    const y = top + i * size * LINE_HEIGHT;
+    if (text.stroke) {
+      ctx.strokeStyle = text.stroke.color;
+      // Strokes are centred on the glyph edge; double it to get the outer width
+      ctx.lineWidth = Math.max(1, text.stroke.width * (size / text.fontSize) * 2);
+      ctx.strokeText(line, 0, y);
+    }
+    ctx.fillStyle = text.fill;
+    ctx.fillText(line, 0, y);
+  });
+  ctx.restore();
+};
+
+/**
+ * Composes the thumbnail for one locale: every TEXT layer with a translation is
+ * erased from the original and redrawn in the new language, matching its color,
+ * outline and rotation and auto-fitted inside its box. Layers without a
+ * translation keep the original pixels.
+ */
+export const renderLocalizedThumbnail = (
+  imageElement: HTMLImageElement,
+  layers: LayerData[],
+  translations: Record<string, string>
+): HTMLCanvasElement => {
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  const canvas = createCanvas();
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+  ctx.drawImage(imageElement, 0, 0);
+
+  const translated = layers
+    .filter(l => l.type === ElementType.TEXT && translations[l.id]?.trim())
+    .sort((a, b) => a.zIndex - b.zIndex);
+
+  inpaintBoxes(canvas, translated.map(l => l.box));
+
+  translated.forEach(layer => {
+    drawFittedText(ctx, translations[layer.id].trim(), layer.text ?? estimateTextStyle(imageElement, layer), {
+      x: layer.box.xmin * width,
+      y: layer.box.ymin * height,
+      width: (layer.box.xmax - layer.box.xmin) * width,
+      height: (layer.box.ymax - layer.box.ymin) * height,
+    });
+  });
+  return canvas;
+};
@@ -0,0 +1,57 @@
+import { PixelStats } from "./compositionMetrics";
+import { createCanvas } from "./canvas";
+
+export type OverlayKind = "thirds" | "golden" | "weight" | "balance" | "heatmap";
+
+export const OVERLAYS: { kind: OverlayKind; label: string }[] = [
+  { kind: "thirds", label: "Thirds" },
+  { kind: "golden", label: "Golden" },
+  { kind: "weight", label: "Weight" },
+  { kind: "balance", label: "Balance" },
+  { kind: "heatmap", label: "Heatmap" },
+];
+
+// Grid lines as fractions of the frame, on both axes
+export const THIRDS_LINES = [1 / 3, 2 / 3];
+export const GOLDEN_LINES = [1 - 1 / 1.618, 1 / 1.618];
+
+// Beam tilt when the weight center sits on the frame edge
+const MAX_TILT = 20;
+
+/**
+ * Tilt of the balance beam in degrees: the beam pivots on the frame center and
+ * dips towards the heavier side. `x` is the weight center in percent.
+ */
+export const balanceTilt = (x: number) =>
+  Math.max(-MAX_TILT, Math.min(MAX_TILT, ((x - 50) / 50) * MAX_TILT));
+
+// Blue (cold) to red (hot), the usual attention map palette
+const heatColor = (v: number): [number, number, number] => {
+  const channel = (center: number) => Math.round(255 * Math.max(0, Math.min(1, 1.5 - Math.abs(4 * v - center))));
+  return [channel(3), channel(2), channel(1)];
+};
+
+/**
+ * Renders the saliency grid as a translucent heatmap PNG, one pixel per cell;
+ * the browser smooths it when it is stretched over the image.
+ */
+export const renderHeatmap = (stats: PixelStats): string => {
+  const canvas = createCanvas();
+  canvas.width = stats.width;
+  canvas.height = stats.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+
+  const image = ctx.createImageData(stats.width, stats.height);
+  for (let i = 0; i < stats.saliency.length; i++) {
+    const v = stats.saliency[i];
+    const [r, g, b] = heatColor(v);
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    // Quiet areas stay mostly see-through
+    image.data[i * 4 + 3] = Math.round(40 + v * 170);
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL("image/png");
+};
@@ -0,0 +1,245 @@
+import { ElementType, LayerData } from "../types";
+import { RGB, hexToRgb, rgbToHex } from "./color";
+import { createCanvas } from "./canvas";
+import { textContrast } from "./platformCheck";
+
+export type ColorVision = "protanopia" | "deuteranopia" | "tritanopia";
+
+export type HarmonyType =
+  | "monochromatic"
+  | "analogous"
+  | "complementary"
+  | "split-complementary"
+  | "triadic"
+  | "tetradic"
+  | "neutral"
+  | "mixed";
+
+export interface ContrastRow {
+  layerId: string;
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  aa: boolean; // 4.5:1, body text
+  aaLarge: boolean; // 3:1, large or bold text
+  aaa: boolean; // 7:1
+}
+
+export interface Harmony {
+  type: HarmonyType;
+  hues: number[]; // Distinct hue groups, degrees
+}
+
+// Machado et al. (2009) matrices at full severity, applied in linear RGB
+const VISION_MATRICES: Record<ColorVision, number[]> = {
+  protanopia: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  deuteranopia: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+  tritanopia: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039],
+};
+
+// Saturation below which a color is treated as a neutral and left out of harmony
+const NEUTRAL_SATURATION = 0.15;
+// Hues closer than this are the same hue group
+const HUE_GROUP = 20;
+const HUE_TOLERANCE = 25;
+
+const toLinear = (v: number) => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const toGamma = (v: number) => {
+  const c = Math.max(0, Math.min(1, v));
+  return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+};
+
+// Gamma-to-linear lookup, so full-image simulation stays fast
+const LINEAR = Array.from({ length: 256 }, (_, v) => toLinear(v));
+
+export const simulateColor = (rgb: RGB, vision: ColorVision): RGB => {
+  const m = VISION_MATRICES[vision];
+  const [r, g, b] = rgb.map(v => LINEAR[Math.round(v)]);
+  return [
+    toGamma(m[0] * r + m[1] * g + m[2] * b),
+    toGamma(m[3] * r + m[4] * g + m[5] * b),
+    toGamma(m[6] * r + m[7] * g + m[8] * b),
+  ];
+};
+
+export const simulateHex = (hex: string, vision: ColorVision) => {
+  const rgb = hexToRgb(hex);
+  return rgb ? rgbToHex(simulateColor(rgb, vision)) : hex;
+};
+
+/**
+ * Renders the whole image as seen with the given color vision deficiency.
+ * Returns a PNG Data URL no wider than `maxWidth`.
+ */
+export const simulateColorVision = (imageElement: HTMLImageElement, vision: ColorVision, maxWidth = 640): string => {
+  const scale = Math.min(1, maxWidth / imageElement.naturalWidth);
+  const canvas = createCanvas();
+  canvas.width = Math.max(1, Math.round(imageElement.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(imageElement.naturalHeight * scale));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return "";
+  ctx.drawImage(imageElement, 0, 0, canvas.width, canvas.height);
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const m = VISION_MATRICES[vision];
+  for (let i = 0; i < data.length; i += 4) {
+    const r = LINEAR[data[i]];
+    const g = LINEAR[data[i + 1]];
+    const b = LINEAR[data[i + 2]];
+    data[i] = toGamma(m[0] * r + m[1] * g + m[2] * b);
+    data[i + 1] = toGamma(m[3] * r + m[4] * g + m[5] * b);
+    data[i + 2] = toGamma(m[6] * r + m[7] * g + m[8] * b);
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * WCAG grades for every TEXT layer, using the same measurement as the
+ * platform contrast check.
+ */
+export const textContrastReport = (imageElement: HTMLImageElement, layers: LayerData[]): ContrastRow[] =>
+  layers
+    .filter(l => l.type === ElementType.TEXT)
+    .flatMap(layer => {
+      const contrast = textContrast(imageElement, layer);
+      if (!contrast) return [];
+      const { ratio } = contrast;
+      return [{
+        layerId: layer.id,
+        label: layer.label,
+        foreground: rgbToHex(contrast.foreground),
+        background: rgbToHex(contrast.background),
+        ratio,
+        aa: ratio >= 4.5,
+        aaLarge: ratio >= 3,
+        aaa: ratio >= 7,
+      }];
+    });
+
+const rgbToHsl = ([r, g, b]: RGB) => {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h = max === rn ? ((gn - bn) / d) % 6 : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  h *= 60;
+  return { h: h < 0 ? h + 360 : h, s, l };
+};
+
+const hueDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+const near = (distance: number, target: number) => Math.abs(distance - target) <= HUE_TOLERANCE;
+
+/**
+ * Classifies the palette by color-wheel relationships between its chromatic
+ * colors. Near-grey colors are ignored; similar hues count once.
+ */
+export const classifyHarmony = (colors: string[]): Harmony => {
+  const hues = colors
+    .map(hexToRgb)
+    .filter((rgb): rgb is RGB => rgb !== null)
+    .map(rgbToHsl)
+    .filter(c => c.s >= NEUTRAL_SATURATION && c.l > 0.08 && c.l < 0.92)
+    .map(c => c.h);
+
+  const groups: number[] = [];
+  hues.forEach(h => {
+    if (!groups.some(g => hueDistance(g, h) < HUE_GROUP)) groups.push(Math.round(h));
+  });
+
+  if (groups.length === 0) return { type: "neutral", hues: groups };
+  if (groups.length === 1) return { type: "monochromatic", hues: groups };
+
+  const distances = groups.flatMap((a, i) => groups.slice(i + 1).map(b => hueDistance(a, b)));
+  const spread = Math.max(...distances);
+
+  if (spread <= 60) return { type: "analogous", hues: groups };
+  if (groups.length === 2) return { type: near(spread, 180) ? "complementary" : "mixed", hues: groups };
+
+  if (groups.length === 3) {
+    if (distances.every(d => near(d, 120))) return { type: "triadic", hues: groups };
+    // One hue opposite a pair that sits either side of its complement
+    const sorted = [...distances].sort((a, b) => a - b);
+    if (sorted[0] <= 70 && near(sorted[1], 150) && near(sorted[2], 150)) return { type: "split-complementary", hues: groups };
+  }
+
+  if (groups.length === 4) {
+    const opposite = distances.filter(d => near(d, 180)).length;
+    if (opposite >= 2) return { type: "tetradic", hues: groups };
+  }
+
+  return { type: "mixed", hues: groups };
+};
+
+// ASE strings are UTF-16 big-endian with a length prefix that includes the terminator
+const aseString = (value: string) => {
+  const bytes = new Uint8Array(2 + (value.length + 1) * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, value.length + 1);
+  for (let i = 0; i < value.length; i++) view.setUint16(2 + i * 2, value.charCodeAt(i));
+  return bytes;
+};
+
+/**
+ * Adobe Swatch Exchange file with one RGB swatch per color.
+ */
+export const buildAse = (colors: { name: string; hex: string }[]): Blob => {
+  const blocks = colors.flatMap(({ name, hex }) => {
+    const rgb = hexToRgb(hex);
+    if (!rgb) return [];
+    const label = aseString(name);
+    const body = new Uint8Array(label.length + 4 + 12 + 2);
+    body.set(label, 0);
+    const view = new DataView(body.buffer);
+    "RGB ".split("").forEach((c, i) => view.setUint8(label.length + i, c.charCodeAt(0)));
+    rgb.forEach((v, i) => view.setFloat32(label.length + 4 + i * 4, v / 255));
+    view.setUint16(label.length + 16, 2); // Normal (not global or spot) color
+
+    const block = new Uint8Array(6 + body.length);
+    const header = new DataView(block.buffer);
+    header.setUint16(0, 0x0001); // Color entry
+    header.setUint32(2, body.length);
+    block.set(body, 6);
+    return [block];
+  });
+
+  const fileHeader = new DataView(new ArrayBuffer(12));
+  "ASEF".split("").forEach((c, i) => fileHeader.setUint8(i, c.charCodeAt(0)));
+  fileHeader.setUint16(4, 1);
+  fileHeader.setUint16(6, 0);
+  fileHeader.setUint32(8, blocks.length);
+  return new Blob([fileHeader.buffer, ...blocks], { type: "application/octet-stream" });
+};
+
+/**
+ * GIMP / Inkscape palette.
+ */
+export const buildGpl = (name: string, colors: { name: string; hex: string }[]): Blob => {
+  const rows = colors.flatMap(({ name: label, hex }) => {
+    const rgb = hexToRgb(hex);
+    return rgb ? [`${rgb.map(v => String(v).padStart(3, " ")).join(" ")}\t${label}`] : [];
+  });
+  const text = ["GIMP Palette", `Name: ${name}`, `Columns: ${Math.min(colors.length, 8)}`, "#", ...rows, ""].join("\n");
+  return new Blob([text], { type: "text/plain" });
+};
+
+/**
+ * CSS custom properties on :root, one per color.
+ */
+export const buildCssVariables = (colors: { name: string; hex: string }[]): Blob => {
+  const lines = colors.map(({ name, hex }) => `  --${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}: ${hex};`);
+  return new Blob([`:root {\n${lines.join("\n")}\n}\n`], { type: "text/css" });
+};
@@ -0,0 +1,347 @@
+import { BoundingBox, ElementType, LayerData } from "../types";
+import { RGB, contrastRatio, hexToRgb } from "./color";
+import { estimateTextStyle } from "./textStyle";
+import { createCanvas } from "./canvas";
+
+export type PlatformId = "youtube" | "twitch" | "tiktok" | "shorts";
+
+export interface OverlayZone {
+  label: string;
+  box: BoundingBox; // Normalized to the platform frame
+  kind: "badge" | "bar" | "area"; // How the preview mocks it up
+}
+
+export interface PlatformPreset {
+  id: PlatformId;
+  name: string;
+  aspect: number; // Width / height of the frame the platform shows
+  zones: OverlayZone[];
+  displayWidths: { label: string; width: number }[]; // Common on-screen sizes, CSS pixels
+}
+
+export const PLATFORM_PRESETS: Record<PlatformId, PlatformPreset> = {
+  youtube: {
+    id: "youtube",
+    name: "YouTube",
+    aspect: 16 / 9,
+    zones: [
+      { label: "12:34", box: { xmin: 0.855, ymin: 0.85, xmax: 0.975, ymax: 0.95 }, kind: "badge" },
+      { label: "Progress bar", box: { xmin: 0, ymin: 0.97, xmax: 1, ymax: 1 }, kind: "bar" },
+      { label: "Watch later / queue", box: { xmin: 0.87, ymin: 0.03, xmax: 0.98, ymax: 0.25 }, kind: "area" },
+    ],
+    displayWidths: [
+      { label: "Home", width: 360 },
+      { label: "Mobile", width: 246 },
+      { label: "Sidebar", width: 168 },
+    ],
+  },
+  twitch: {
+    id: "twitch",
+    name: "Twitch",
+    aspect: 16 / 9,
+    zones: [
+      { label: "LIVE", box: { xmin: 0.03, ymin: 0.04, xmax: 0.15, ymax: 0.14 }, kind: "badge" },
+      { label: "1.2K viewers", box: { xmin: 0.03, ymin: 0.84, xmax: 0.3, ymax: 0.95 }, kind: "badge" },
+    ],
+    displayWidths: [
+      { label: "Directory", width: 320 },
+      { label: "Sidebar", width: 180 },
+    ],
+  },
+  tiktok: {
+    id: "tiktok",
+    name: "TikTok cover",
+    aspect: 9 / 16,
+    zones: [
+      { label: "Tabs", box: { xmin: 0, ymin: 0, xmax: 1, ymax: 0.1 }, kind: "area" },
+      { label: "Actions", box: { xmin: 0.84, ymin: 0.38, xmax: 1, ymax: 0.86 }, kind: "area" },
+      { label: "Caption", box: { xmin: 0, ymin: 0.8, xmax: 0.82, ymax: 1 }, kind: "area" },
+    ],
+    displayWidths: [
+      { label: "Profile grid", width: 124 },
+      { label: "Feed", width: 360 },
+    ],
+  },
+  shorts: {
+    id: "shorts",
+    name: "Shorts",
+    aspect: 9 / 16,
+    zones: [
+      { label: "Header", box: { xmin: 0, ymin: 0, xmax: 1, ymax: 0.08 }, kind: "area" },
+      { label: "Actions", box: { xmin: 0.84, ymin: 0.45, xmax: 1, ymax: 0.9 }, kind: "area" },
+      { label: "Title & channel", box: { xmin: 0, ymin: 0.8, xmax: 0.84, ymax: 1 }, kind: "area" },
+    ],
+    displayWidths: [
+      { label: "Shelf", width: 180 },
+      { label: "Player", width: 360 },
+    ],
+  },
+};
+
+export interface PlatformCheckSettings {
+  platforms: PlatformId[];
+  minTextHeight: number; // CSS pixels of cap height below which text is unreadable
+  minContrast: number; // WCAG ratio; 3 is the large-text threshold
+}
+
+export interface PlatformFinding {
+  platform?: PlatformId; // Absent for checks that hold on every platform
+  layerId: string;
+  kind: "overlap" | "cropped" | "legibility" | "contrast";
+  severity: "warning" | "error";
+  message: string;
+}
+
+const SETTINGS_KEY = "thumbnail-separator.platform-check";
+
+// Layers the viewer must be able to see; backgrounds and objects may sit under UI
+const CRITICAL_TYPES = [ElementType.TEXT, ElementType.LOGO, ElementType.PERSON];
+
+// Share of a layer that may hide under UI before it is flagged
+const OVERLAP_TOLERANCE = 0.05;
+const OVERLAP_ERROR = 0.3;
+
+export const defaultPlatformSettings = (): PlatformCheckSettings => ({
+  platforms: ["youtube"],
+  minTextHeight: 9,
+  minContrast: 3,
+});
+
+export const loadPlatformSettings = (): PlatformCheckSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (stored && Array.isArray(stored.platforms)) {
+      return {
+        ...defaultPlatformSettings(),
+        ...stored,
+        platforms: stored.platforms.filter((id: string) => id in PLATFORM_PRESETS),
+      };
+    }
+  } catch {
+    // Corrupt settings fall through to defaults
+  }
+  return defaultPlatformSettings();
+};
+
+export const savePlatformSettings = (settings: PlatformCheckSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The part of the image a platform shows when it cover-fits it into its
+ * frame, normalized to the image.
+ */
+export const visibleRegion = (imageElement: HTMLImageElement, preset: PlatformPreset): BoundingBox => {
+  const imageAspect = imageElement.naturalWidth / imageElement.naturalHeight;
+  if (imageAspect > preset.aspect) {
+    const width = preset.aspect / imageAspect;
+    return { xmin: (1 - width) / 2, xmax: (1 + width) / 2, ymin: 0, ymax: 1 };
+  }
+  const height = imageAspect / preset.aspect;
+  return { xmin: 0, xmax: 1, ymin: (1 - height) / 2, ymax: (1 + height) / 2 };
+};
+
+// Maps a box from platform-frame coordinates into image coordinates
+const toImageBox = (box: BoundingBox, region: BoundingBox): BoundingBox => ({
+  xmin: region.xmin + box.xmin * (region.xmax - region.xmin),
+  xmax: region.xmin + box.xmax * (region.xmax - region.xmin),
+  ymin: region.ymin + box.ymin * (region.ymax - region.ymin),
+  ymax: region.ymin + box.ymax * (region.ymax - region.ymin),
+});
+
+const area = (box: BoundingBox) => Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+
+const intersection = (a: BoundingBox, b: BoundingBox): BoundingBox => ({
+  xmin: Math.max(a.xmin, b.xmin),
+  xmax: Math.min(a.xmax, b.xmax),
+  ymin: Math.max(a.ymin, b.ymin),
+  ymax: Math.min(a.ymax, b.ymax),
+});
+
+// Average color along the edge of a box, where the pixels behind text show
+const sampleBorderColor = (imageElement: HTMLImageElement, box: BoundingBox): RGB | null => {
+  const canvas = createCanvas();
+  canvas.width = 32;
+  canvas.height = 32;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  ctx.drawImage(
+    imageElement,
+    box.xmin * width, box.ymin * height, (box.xmax - box.xmin) * width, (box.ymax - box.ymin) * height,
+    0, 0, canvas.width, canvas.height
+  );
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      if (x > 0 && y > 0 && x < canvas.width - 1 && y < canvas.height - 1) continue;
+      const i = (y * canvas.width + x) * 4;
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+      count++;
+    }
+  }
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+};
+
+/**
+ * Contrast of a text layer against what is behind it. An outline counts when
+ * it separates the fill better than the background does; `background` is then
+ * the outline color. Shared by the platform checks and the color tools.
+ */
+export const textContrast = (
+  imageElement: HTMLImageElement,
+  layer: LayerData
+): { foreground: RGB; background: RGB; ratio: number } | null => {
+  const style = layer.text ?? estimateTextStyle(imageElement, layer);
+  const fill = hexToRgb(style.fill);
+  const background = sampleBorderColor(imageElement, layer.box);
+  if (!fill || !background) return null;
+  const stroke = style.stroke && hexToRgb(style.stroke.color);
+  const ratio = contrastRatio(fill, background);
+  if (stroke && contrastRatio(fill, stroke) > ratio) {
+    return { foreground: fill, background: stroke, ratio: contrastRatio(fill, stroke) };
+  }
+  return { foreground: fill, background, ratio };
+};
+
+/**
+ * Runs the safe-zone, small-size legibility and contrast checks for every
+ * selected platform. Hidden layers are ignored.
+ */
+export const checkPlatforms = (
+  imageElement: HTMLImageElement,
+  layers: LayerData[],
+  settings: PlatformCheckSettings
+): PlatformFinding[] => {
+  const findings: PlatformFinding[] = [];
+  const visible = layers.filter(l => l.visible);
+  const textLayers = visible.filter(l => l.type === ElementType.TEXT);
+
+  // Contrast does not depend on the platform
+  const contrasts = new Map(textLayers.map(l => [l.id, textContrast(imageElement, l)?.ratio]));
+
+  settings.platforms.forEach(platform => {
+    const preset = PLATFORM_PRESETS[platform];
+    const region = visibleRegion(imageElement, preset);
+    const regionWidthPx = (region.xmax - region.xmin) * imageElement.naturalWidth;
+
+    visible.filter(l => CRITICAL_TYPES.includes(l.type)).forEach(layer => {
+      const layerArea = area(layer.box) || 1;
+
+      const shown = area(intersection(layer.box, region)) / layerArea;
+      if (shown < 1 - OVERLAP_TOLERANCE) {
+        findings.push({
+          platform,
+          layerId: layer.id,
+          kind: "cropped",
+          severity: shown < 1 - OVERLAP_ERROR ? "error" : "warning",
+          message: `"${layer.label}" is ${Math.round((1 - shown) * 100)}% cropped out of the ${preset.name} frame`,
+        });
+      }
+
+      preset.zones.forEach(zone => {
+        const covered = area(intersection(layer.box, toImageBox(zone.box, region))) / layerArea;
+        if (covered <= OVERLAP_TOLERANCE) return;
+        findings.push({
+          platform,
+          layerId: layer.id,
+          kind: "overlap",
+          severity: covered > OVERLAP_ERROR && layer.type !== ElementType.PERSON ? "error" : "warning",
+          message: `"${layer.label}" sits ${Math.round(covered * 100)}% under the ${preset.name} ${zone.kind === "badge" ? `"${zone.label}" badge` : zone.label.toLowerCase()}`,
+        });
+      });
+    });
+
+    textLayers.forEach(layer => {
+      const fontSize = layer.text?.fontSize ?? (layer.box.ymax - layer.box.ymin) * imageElement.naturalHeight * 0.75;
+      const smallest = Math.min(...preset.displayWidths.map(d => d.width));
+      const smallestLabel = preset.displayWidths.find(d => d.width === smallest)?.label ?? "";
+      const displayed = fontSize * (smallest / regionWidthPx);
+      if (displayed < settings.minTextHeight) {
+        findings.push({
+          platform,
+          layerId: layer.id,
+          kind: "legibility",
+          severity: displayed < settings.minTextHeight * 0.6 ? "error" : "warning",
+          message: `"${layer.label}" shrinks to ${displayed.toFixed(1)}px text in the ${preset.name} ${smallestLabel.toLowerCase()} view (${smallest}px wide)`,
+        });
+      }
+    });
+  });
+
+  textLayers.forEach(layer => {
+    const ratio = contrasts.get(layer.id);
+    if (ratio == null || ratio >= settings.minContrast) return;
+    findings.push({
+      layerId: layer.id,
+      kind: "contrast",
+      severity: ratio < settings.minContrast * 0.66 ? "error" : "warning",
+      message: `"${layer.label}" has a ${ratio.toFixed(1)}:1 contrast against the pixels behind it (aim for ${settings.minContrast}:1)`,
+    });
+  });
+
+  return findings;
+};
+
+/**
+ * Draws the thumbnail as the platform shows it at `displayWidth` CSS pixels:
+ * cover-cropped to the frame, downscaled, with mock UI over the reserved zones.
+ */
+export const renderPlatformPreview = (
+  imageElement: HTMLImageElement,
+  preset: PlatformPreset,
+  displayWidth: number,
+  pixelRatio = 1
+): HTMLCanvasElement => {
+  const canvas = createCanvas();
+  canvas.width = Math.round(displayWidth * pixelRatio);
+  canvas.height = Math.round((displayWidth / preset.aspect) * pixelRatio);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  const region = visibleRegion(imageElement, preset);
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(
+    imageElement,
+    region.xmin * width, region.ymin * height, (region.xmax - region.xmin) * width, (region.ymax - region.ymin) * height,
+    0, 0, canvas.width, canvas.height
+  );
+
+  preset.zones.forEach(zone => {
+    const x = zone.box.xmin * canvas.width;
+    const y = zone.box.ymin * canvas.height;
+    const w = (zone.box.xmax - zone.box.xmin) * canvas.width;
+    const h = (zone.box.ymax - zone.box.ymin) * canvas.height;
+    if (zone.kind === "bar") {
+      ctx.fillStyle = "#ff0000";
+      ctx.fillRect(x, y, w * 0.4, h);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.4)";
+      ctx.fillRect(x + w * 0.4, y, w * 0.6, h);
+    } else if (zone.kind === "badge") {
+      ctx.fillStyle = zone.label === "LIVE" ? "#e91916" : "rgba(0, 0, 0, 0.8)";
+      ctx.beginPath();
+      ctx.roundRect(x, y, w, h, Math.min(w, h) * 0.2);
+      ctx.fill();
+      ctx.fillStyle = "#ffffff";
+      ctx.font = `600 ${Math.max(6, h * 0.6)}px sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(zone.label, x + w / 2, y + h / 2, w * 0.9);
+    } else {
+      ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
+      ctx.fillRect(x, y, w, h);
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.6)";
+      ctx.setLineDash([3 * pixelRatio, 2 * pixelRatio]);
+      ctx.strokeRect(x + 0.5, y + 0.5, w - 1, h - 1);
+      ctx.setLineDash([]);
+    }
+  });
+  return canvas;
+};
@@ -0,0 +1,172 @@
+import { ProcessingResult, ProjectEdits, ProjectFile } from "../types";
+import { validateProvenance, validateStoredResult } from "../services/validation";
+
+/**
+ * Thumbnail Separator project files (.tsep) are UTF-8 JSON documents:
+ *
+ *   {
+ *     "format": "tsep",
+ *     "version": 1,
+ *     "name": string,
+ *     "createdAt": ISO string, "exportedAt": ISO string,
+ *     "image": { "dataUrl": "data:image/...;base64,...", "width": px, "height": px },
+ *     "provenance": { "providerId", "model", "temperature", "promptHash", "analyzedAt" } | null,
+ *     "originalResult": ProcessingResult,   // the analysis as returned
+ *     "result": ProcessingResult,           // with the user's edits
+ *     "edits": { "added": id[], "removed": id[], "modified": id[] }
+ *   }
+ *
+ * Boxes are normalized to 0-1 like everywhere else in the app. Keys are written
+ * in a fixed order with two-space indentation so files diff cleanly.
+ *
+ * Bump PROJECT_FILE_VERSION whenever the shape changes and add a migration from
+ * the previous version to MIGRATIONS; imports walk the chain up to the current
+ * version. Version 0 is the unversioned `thumbnail_data.json` export, a bare
+ * ProcessingResult without the image.
+ */
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = ".tsep";
+
+type RawDocument = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a document from its key version to the next one
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  0: result => {
+    const now = new Date().toISOString();
+    return {
+      format: "tsep",
+      version: 1,
+      name: "Imported thumbnail",
+      createdAt: now,
+      exportedAt: now,
+      image: null, // Legacy exports never embedded it; supplied on import
+      provenance: isRecord(result.provenance) ? result.provenance : null,
+      originalResult: result,
+      result,
+    };
+  },
+};
+
+const detectVersion = (doc: RawDocument): number => {
+  if (doc.format === "tsep") {
+    if (typeof doc.version !== "number" || !Number.isInteger(doc.version)) {
+      throw new Error("Project file has no valid version");
+    }
+    return doc.version;
+  }
+  if (Array.isArray(doc.layers) && isRecord(doc.analysis)) return 0;
+  throw new Error("Not a Thumbnail Separator project file");
+};
+
+/** Layer ids added, removed or changed by the user, in layer order. */
+export const diffResults = (original: ProcessingResult, edited: ProcessingResult): ProjectEdits => {
+  const before = new Map(original.layers.map(l => [l.id, l]));
+  const after = new Set(edited.layers.map(l => l.id));
+  return {
+    added: edited.layers.filter(l => !before.has(l.id)).map(l => l.id),
+    removed: original.layers.filter(l => !after.has(l.id)).map(l => l.id),
+    modified: edited.layers
+      .filter(l => before.has(l.id) && JSON.stringify(l) !== JSON.stringify(before.get(l.id)))
+      .map(l => l.id),
+  };
+};
+
+// Hand-edited or foreign files get the same coercions as model answers; fixes are listed as warnings
+const readResult = (value: unknown, where: string): ProcessingResult => {
+  if (!isRecord(value) || !Array.isArray(value.layers) || !isRecord(value.analysis)) {
+    throw new Error(`Invalid project file: ${where} is missing layers or analysis`);
+  }
+  const { result, warnings } = validateStoredResult(value);
+  if (warnings.length === 0) return result;
+  return { ...result, warnings: [...(result.warnings ?? []), ...warnings.map(w => `Project file: ${w}`)] };
+};
+
+/**
+ * Serializes an open project. The image must be a Data URL so the file is
+ * self-contained.
+ */
+export const buildProjectFile = (project: {
+  name: string;
+  createdAt?: number;
+  image: ProjectFile["image"];
+  originalResult: ProcessingResult;
+  result: ProcessingResult;
+}): string => {
+  const now = new Date();
+  const file: ProjectFile = {
+    format: "tsep",
+    version: PROJECT_FILE_VERSION,
+    name: project.name,
+    createdAt: new Date(project.createdAt ?? now.getTime()).toISOString(),
+    exportedAt: now.toISOString(),
+    image: project.image,
+    provenance: project.originalResult.provenance ?? project.result.provenance ?? null,
+    originalResult: project.originalResult,
+    result: project.result,
+    edits: diffResults(project.originalResult, project.result),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses a project file of any known version, migrating it to the current one.
+ * Files without an embedded image (legacy JSON exports) need `image` from the
+ * caller. Throws with a readable message when the file can't be used.
+ */
+export const parseProjectFile = (text: string, image?: ProjectFile["image"]): ProjectFile => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("Project file is not valid JSON");
+  }
+  if (!isRecord(doc)) throw new Error("Not a Thumbnail Separator project file");
+
+  let version = detectVersion(doc);
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${version} is newer than this app supports (${PROJECT_FILE_VERSION}); please update`);
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project file version ${version}`);
+    doc = migrate(doc as RawDocument);
+    version = (doc as RawDocument).version as number;
+  }
+
+  const migrated = doc as RawDocument;
+  // Only inline images: a remote URL would taint the canvas and break pixel reads
+  const embedded = isRecord(migrated.image) && typeof migrated.image.dataUrl === "string"
+    ? migrated.image as unknown as ProjectFile["image"]
+    : null;
+  if (embedded && !embedded.dataUrl.startsWith("data:image/")) {
+    throw new Error("Project file image must be an embedded data:image/ URL");
+  }
+  const resolvedImage = embedded ?? image;
+  if (!resolvedImage) {
+    throw new Error("Project file has no embedded image; import it together with the original image");
+  }
+
+  const originalResult = readResult(migrated.originalResult, "originalResult");
+  const result = readResult(migrated.result, "result");
+  return {
+    format: "tsep",
+    version,
+    name: typeof migrated.name === "string" && migrated.name.trim() ? migrated.name : "Imported thumbnail",
+    createdAt: typeof migrated.createdAt === "string" ? migrated.createdAt : new Date().toISOString(),
+    exportedAt: typeof migrated.exportedAt === "string" ? migrated.exportedAt : new Date().toISOString(),
+    image: resolvedImage,
+    provenance: validateProvenance(migrated.provenance) ?? null,
+    originalResult,
+    result,
+    edits: diffResults(originalResult, result),
+  };
+};
+
+/** Whether a file looks like something `parseProjectFile` can read. */
+export const isProjectFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return name.endsWith(PROJECT_FILE_EXTENSION) || name.endsWith(".json");
+};
@@ -0,0 +1,138 @@
+import { writePsd, Layer } from "ag-psd";
+import { ElementType, LayerData, TextAttributes } from "../types";
+import { hexToRgb } from "./color";
+import { renderLayerCanvas } from "./imageProcessing";
+import { groupRuns } from "./layerTree";
+import { createCanvas } from "./canvas";
+
+const GROUP_NAMES: Record<ElementType, string> = {
+  [ElementType.BACKGROUND]: "Backgrounds",
+  [ElementType.EFFECT]: "Effects",
+  [ElementType.OBJECT]: "Objects",
+  [ElementType.PERSON]: "People",
+  [ElementType.LOGO]: "Logos",
+  [ElementType.TEXT]: "Text",
+};
+
+const imageToCanvas = (imageElement: HTMLImageElement) => {
+  const canvas = createCanvas();
+  canvas.width = imageElement.naturalWidth;
+  canvas.height = imageElement.naturalHeight;
+  canvas.getContext("2d")?.drawImage(imageElement, 0, 0);
+  return canvas;
+};
+
+const psdColor = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex) ?? [128, 128, 128];
+  return { r, g, b };
+};
+
+/**
+ * Live, editable text for a recognized TEXT layer, centred on its box.
+ */
+const toTextData = (text: TextAttributes, centerX: number, centerY: number): Layer["text"] => {
+  const angle = (text.rotation * Math.PI) / 180;
+  const lines = text.content.split("\n").length;
+  // The anchor is the first baseline; shift it up so the block stays centred
+  const baseline = centerY - ((lines - 1) * text.fontSize * 1.2) / 2 + text.fontSize * 0.35;
+  return {
+    text: text.content.replace(/\n/g, "\r"),
+    transform: [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), centerX, baseline],
+    style: {
+      font: { name: text.fontFamily?.replace(/\s+/g, "") || (text.fontWeight >= 700 ? "Arial-BoldMT" : "ArialMT") },
+      fontSize: text.fontSize,
+      fauxBold: text.fontWeight >= 700 && !text.fontFamily,
+      fillColor: psdColor(text.fill),
+    },
+    paragraphStyle: { justification: "center" },
+  };
+};
+
+const toPsdLayer = async (imageElement: HTMLImageElement, layer: LayerData): Promise<Layer> => {
+  const canvas = await renderLayerCanvas(imageElement, layer);
+  const left = Math.round(layer.box.xmin * imageElement.naturalWidth);
+  const top = Math.round(layer.box.ymin * imageElement.naturalHeight);
+  const psdLayer: Layer = {
+    name: layer.label,
+    left,
+    top,
+    right: left + canvas.width,
+    bottom: top + canvas.height,
+    hidden: !layer.visible,
+    canvas,
+  };
+
+  if (layer.text) {
+    psdLayer.text = toTextData(layer.text, left + canvas.width / 2, top + canvas.height / 2);
+    if (layer.text.stroke) {
+      psdLayer.effects = {
+        stroke: [{
+          enabled: true,
+          position: "outside",
+          size: { units: "Pixels", value: layer.text.stroke.width },
+          color: psdColor(layer.text.stroke.color),
+        }],
+      };
+    }
+  }
+  return psdLayer;
+};
+
+/**
+ * Builds a layered Photoshop document from the separated layers.
+ *
+ * The original image sits at the bottom as a locked base layer. Detected layers
+ * become pixel layers at their box position, stacked exactly by `zIndex`. User
+ * groups become folders; consecutive ungrouped layers of the same element type
+ * share a type folder. A type or group interleaved with others in the stack gets
+ * numbered folders ("Text", "Text 2") so the order survives. Recognized text is written as live text layers, which
+ * Photoshop re-renders on open.
+ */
+export const buildPsd = async (
+  imageElement: HTMLImageElement,
+  layers: LayerData[]
+): Promise<Blob> => {
+  const sorted = [...layers].sort((a, b) => a.zIndex - b.zIndex);
+
+  // ag-psd expects children bottom-to-top
+  const folders: { name: string; members: LayerData[] }[] = [];
+  groupRuns(sorted).forEach(run => {
+    const name = run.group ?? GROUP_NAMES[run.layers[0].type] ?? run.layers[0].type;
+    const last = folders[folders.length - 1];
+    if (run.group === null && last && last.name === name && !last.members[0].group) {
+      last.members.push(...run.layers);
+    } else {
+      folders.push({ name, members: run.layers });
+    }
+  });
+
+  const seen = new Map<string, number>();
+  folders.forEach(folder => {
+    const count = (seen.get(folder.name) ?? 0) + 1;
+    seen.set(folder.name, count);
+    if (count > 1) folder.name = `${folder.name} ${count}`;
+  });
+
+  const children: Layer[] = [{
+    name: "Original",
+    canvas: imageToCanvas(imageElement),
+    protected: { transparency: true, composite: true, position: true },
+  }];
+
+  for (const { name, members } of folders) {
+    children.push({
+      name,
+      opened: true,
+      children: await Promise.all(members.map(layer => toPsdLayer(imageElement, layer))),
+    });
+  }
+
+  const buffer = writePsd({
+    width: imageElement.naturalWidth,
+    height: imageElement.naturalHeight,
+    canvas: imageToCanvas(imageElement),
+    children,
+  }, { invalidateTextLayers: true });
+
+  return new Blob([buffer], { type: "image/vnd.adobe.photoshop" });
+};
@@ -0,0 +1,181 @@
+import { ElementType, LayerData } from "../types";
+import { RGB, clusterColors, colorDistance, hexToRgb } from "./color";
+import { createCanvas } from "./canvas";
+
+// Segmentation runs on a downscaled copy of the box; the mask is scaled back
+// up (with smoothing) when it is applied, which also softens the edges.
+const MAX_WORK_SIZE = 384;
+const PALETTE_SIZE = 5;
+const MIN_FOREGROUND_RATIO = 0.04;
+
+const nearest = (color: RGB, palette: RGB[]) => {
+  let best = Infinity;
+  for (const c of palette) {
+    const d = colorDistance(color, c);
+    if (d < best) best = d;
+  }
+  return best;
+};
+
+/**
+ * Generates an alpha mask for a layer by region growing inside its bounding box.
+ *
+ * Background colors are sampled from the box border, foreground colors from the
+ * box centre and the layer's `dominantColor`. Each pixel is assigned to the closer
+ * model, then only the foreground region connected to the centre seeds is kept
+ * and enclosed holes are filled.
+ *
+ * Returns a PNG Data URL (white, alpha = coverage), or undefined when the layer
+ * should stay rectangular (backgrounds, or when segmentation finds nothing useful).
+ */
+export const generateLayerMask = (
+  imageElement: HTMLImageElement,
+  layer: LayerData
+): string | undefined => {
+  if (layer.type === ElementType.BACKGROUND) return undefined;
+
+  const { box } = layer;
+  const sw = (box.xmax - box.xmin) * imageElement.naturalWidth;
+  const sh = (box.ymax - box.ymin) * imageElement.naturalHeight;
+  if (sw < 4 || sh < 4) return undefined;
+
+  const scale = Math.min(1, MAX_WORK_SIZE / Math.max(sw, sh));
+  const w = Math.max(4, Math.round(sw * scale));
+  const h = Math.max(4, Math.round(sh * scale));
+
+  const canvas = createCanvas();
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return undefined;
+
+  ctx.drawImage(
+    imageElement,
+    box.xmin * imageElement.naturalWidth,
+    box.ymin * imageElement.naturalHeight,
+    sw, sh,
+    0, 0, w, h
+  );
+  const pixels = ctx.getImageData(0, 0, w, h);
+  const data = pixels.data;
+  const colorAt = (i: number): RGB => [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+
+  // 1. Sample background (border ring) and foreground (central ellipse) colors
+  const ring = Math.max(1, Math.round(Math.min(w, h) * 0.03));
+  const bgSamples: RGB[] = [];
+  const fgSamples: RGB[] = [];
+  const cx = w / 2;
+  const cy = h / 2;
+  const isSeed = (x: number, y: number) => {
+    const nx = (x - cx) / (w * 0.2);
+    const ny = (y - cy) / (h * 0.2);
+    return nx * nx + ny * ny <= 1;
+  };
+
+  const sampleStep = Math.max(1, Math.floor((w * h) / 4000));
+  for (let i = 0; i < w * h; i += sampleStep) {
+    const x = i % w;
+    const y = Math.floor(i / w);
+    if (x < ring || y < ring || x >= w - ring || y >= h - ring) {
+      bgSamples.push(colorAt(i));
+    } else if (isSeed(x, y)) {
+      fgSamples.push(colorAt(i));
+    }
+  }
+
+  const bgPalette = clusterColors(bgSamples, PALETTE_SIZE);
+  const fgPalette = clusterColors(fgSamples, PALETTE_SIZE);
+  const dominant = hexToRgb(layer.dominantColor);
+  if (dominant) fgPalette.push(dominant);
+
+  // Border colors that also appear in the centre would swallow the subject;
+  // drop them from the background model.
+  const bgModel = bgPalette.filter(c => nearest(c, fgPalette) > 400);
+  if (bgModel.length === 0) return undefined;
+
+  // 2. Classify every pixel against the two models
+  const candidate = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    const c = colorAt(i);
+    candidate[i] = nearest(c, fgPalette) <= nearest(c, bgModel) ? 1 : 0;
+  }
+
+  // 3. Grow the foreground region from the centre seeds
+  const mask = new Uint8Array(w * h);
+  const stack: number[] = [];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      if (candidate[i] && isSeed(x, y)) {
+        mask[i] = 1;
+        stack.push(i);
+      }
+    }
+  }
+  while (stack.length) {
+    const i = stack.pop()!;
+    const x = i % w;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < w - 1 ? i + 1 : -1,
+      i - w,
+      i + w
+    ];
+    for (const n of neighbours) {
+      if (n >= 0 && n < w * h && candidate[n] && !mask[n]) {
+        mask[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+
+  // 4. Fill holes: anything not reachable from the border without crossing the mask
+  const outside = new Uint8Array(w * h);
+  for (let x = 0; x < w; x++) {
+    stack.push(x, (h - 1) * w + x);
+  }
+  for (let y = 0; y < h; y++) {
+    stack.push(y * w, y * w + w - 1);
+  }
+  while (stack.length) {
+    const i = stack.pop()!;
+    if (outside[i] || mask[i]) continue;
+    outside[i] = 1;
+    const x = i % w;
+    if (x > 0) stack.push(i - 1);
+    if (x < w - 1) stack.push(i + 1);
+    if (i - w >= 0) stack.push(i - w);
+    if (i + w < w * h) stack.push(i + w);
+  }
+
+  let covered = 0;
+  for (let i = 0; i < w * h; i++) {
+    if (!outside[i]) covered++;
+  }
+  if (covered / (w * h) < MIN_FOREGROUND_RATIO) return undefined;
+
+  // 5. Write the mask with a 1px feather
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+          sum += outside[ny * w + nx] ? 0 : 1;
+          count++;
+        }
+      }
+      const o = (y * w + x) * 4;
+      data[o] = 255;
+      data[o + 1] = 255;
+      data[o + 2] = 255;
+      data[o + 3] = Math.round((sum / count) * 255);
+    }
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  return canvas.toDataURL("image/png");
+};
@@ -0,0 +1,76 @@
+import { LayerData, TextAttributes } from "../types";
+import { cutoutLayer } from "./imageProcessing";
+import { groupRuns } from "./layerTree";
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" }[c]!));
+
+const textElement = (layer: LayerData, text: TextAttributes, width: number, height: number) => {
+  const cx = ((layer.box.xmin + layer.box.xmax) / 2) * width;
+  const cy = ((layer.box.ymin + layer.box.ymax) / 2) * height;
+  const lines = text.content.split("\n");
+  const lineHeight = text.fontSize * 1.2;
+  const firstDy = -((lines.length - 1) * lineHeight) / 2;
+
+  const attributes = [
+    `x="${cx}"`,
+    `y="${cy}"`,
+    `font-family="${escapeXml(text.fontFamily ?? "Arial")}, Impact, sans-serif"`,
+    `font-size="${text.fontSize}"`,
+    `font-weight="${text.fontWeight}"`,
+    `fill="${text.fill}"`,
+    text.stroke ? `stroke="${text.stroke.color}" stroke-width="${text.stroke.width * 2}" paint-order="stroke" stroke-linejoin="round"` : "",
+    `text-anchor="middle"`,
+    `dominant-baseline="central"`,
+    text.rotation ? `transform="rotate(${text.rotation} ${cx} ${cy})"` : "",
+  ].filter(Boolean).join(" ");
+
+  const spans = lines
+    .map((line, i) => `<tspan x="${cx}" dy="${i === 0 ? firstDy : lineHeight}">${escapeXml(line)}</tspan>`)
+    .join("");
+  return `<text ${attributes}>${spans}</text>`;
+};
+
+/**
+ * Builds an SVG document from the separated layers: the original image at the
+ * bottom, pixel cutouts for each layer, and live <text> for recognized TEXT
+ * layers so the copy stays editable. User groups become <g> elements.
+ */
+export const buildSvg = async (
+  imageElement: HTMLImageElement,
+  imageSrc: string,
+  layers: LayerData[]
+): Promise<Blob> => {
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  const sorted = [...layers].sort((a, b) => a.zIndex - b.zIndex);
+
+  const renderLayer = async (layer: LayerData) => {
+    const visibility = layer.visible ? "" : ` visibility="hidden"`;
+    const id = `id="${escapeXml(layer.id)}" data-label="${escapeXml(layer.label)}"${visibility}`;
+    if (layer.text) {
+      return `<g ${id}>${textElement(layer, layer.text, width, height)}</g>`;
+    }
+    const x = layer.box.xmin * width;
+    const y = layer.box.ymin * height;
+    const w = (layer.box.xmax - layer.box.xmin) * width;
+    const h = (layer.box.ymax - layer.box.ymin) * height;
+    return `<image ${id} x="${x}" y="${y}" width="${w}" height="${h}" href="${await cutoutLayer(imageElement, layer)}"/>`;
+  };
+
+  const body = await Promise.all(groupRuns(sorted).map(async run => {
+    const rendered = await Promise.all(run.layers.map(renderLayer));
+    return run.group === null
+      ? rendered.join("\n  ")
+      : `<g data-group="${escapeXml(run.group)}">\n    ${rendered.join("\n    ")}\n  </g>`;
+  }));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <image id="original" x="0" y="0" width="${width}" height="${height}" href="${imageSrc}"/>`,
+    ...body.map(part => `  ${part}`),
+    `</svg>`,
+  ].join("\n");
+
+  return new Blob([svg], { type: "image/svg+xml" });
+};
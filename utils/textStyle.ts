@@ -0,0 +1,99 @@
+import { LayerData, TextAttributes } from "../types";
+import { RGB, clusterColorsWithCounts, colorDistance, rgbToHex } from "./color";
+import { createCanvas } from "./canvas";
+
+const SAMPLE_HEIGHT = 64;
+// Squared RGB distance under which a cluster is considered part of the background
+const BACKGROUND_DISTANCE = 40 * 40;
+// A third color only counts as an outline when it covers a meaningful share of the ink
+const MIN_STROKE_SHARE = 0.15;
+
+const nearest = (color: RGB, centroids: RGB[]) => {
+  let best = 0;
+  centroids.forEach((c, i) => {
+    if (colorDistance(color, c) < colorDistance(color, centroids[best])) best = i;
+  });
+  return best;
+};
+
+/**
+ * Estimates the typography of a TEXT layer from its pixels alone: fill and
+ * outline colors by clustering, line count from the row profile, size from the
+ * box height and weight from ink coverage. The content falls back to the label,
+ * since reading glyphs needs a real OCR pass.
+ */
+export const estimateTextStyle = (imageElement: HTMLImageElement, layer: LayerData): TextAttributes => {
+  const width = imageElement.naturalWidth;
+  const height = imageElement.naturalHeight;
+  const boxWidth = Math.max(1, (layer.box.xmax - layer.box.xmin) * width);
+  const boxHeight = Math.max(1, (layer.box.ymax - layer.box.ymin) * height);
+
+  const fallback: TextAttributes = {
+    content: layer.label,
+    fontSize: Math.round(boxHeight * 0.75),
+    fontWeight: 700,
+    fill: layer.dominantColor,
+    stroke: null,
+    rotation: 0,
+    source: "local",
+  };
+
+  const scale = Math.min(1, SAMPLE_HEIGHT / boxHeight);
+  const canvas = createCanvas();
+  canvas.width = Math.max(1, Math.round(boxWidth * scale));
+  canvas.height = Math.max(1, Math.round(boxHeight * scale));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return fallback;
+  ctx.drawImage(imageElement, layer.box.xmin * width, layer.box.ymin * height, boxWidth, boxHeight, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const pixels: RGB[] = [];
+  for (let i = 0; i < data.length; i += 4) pixels.push([data[i], data[i + 1], data[i + 2]]);
+
+  // The box border is mostly background
+  const border: RGB[] = pixels.filter((_, i) => {
+    const x = i % canvas.width;
+    const y = Math.floor(i / canvas.width);
+    return x === 0 || y === 0 || x === canvas.width - 1 || y === canvas.height - 1;
+  });
+  const backgroundColor = clusterColorsWithCounts(border, 1)[0]?.color;
+  if (!backgroundColor) return fallback;
+
+  const clusters = clusterColorsWithCounts(pixels, 3);
+  const centroids = clusters.map(c => c.color);
+  const ink = clusters
+    .map((c, i) => ({ ...c, index: i }))
+    .filter(c => colorDistance(c.color, backgroundColor) > BACKGROUND_DISTANCE)
+    .sort((a, b) => b.count - a.count);
+  if (ink.length === 0) return fallback;
+
+  const [fill, outline] = ink;
+  const inkIndexes = new Set(ink.map(c => c.index));
+  const inkTotal = ink.reduce((acc, c) => acc + c.count, 0);
+
+  // Rows containing ink, separated by empty gaps, are text lines
+  let lines = 0;
+  let inLine = false;
+  for (let y = 0; y < canvas.height; y++) {
+    let count = 0;
+    for (let x = 0; x < canvas.width; x++) {
+      if (inkIndexes.has(nearest(pixels[y * canvas.width + x], centroids))) count++;
+    }
+    const hasInk = count > canvas.width * 0.02;
+    if (hasInk && !inLine) lines++;
+    inLine = hasInk;
+  }
+  lines = Math.max(1, lines);
+
+  const fontSize = Math.round((boxHeight / lines) * 0.75);
+  const coverage = inkTotal / pixels.length;
+  const hasStroke = outline && outline.count / inkTotal >= MIN_STROKE_SHARE;
+
+  return {
+    ...fallback,
+    fontSize,
+    fontWeight: coverage > 0.45 ? 900 : coverage > 0.3 ? 700 : 400,
+    fill: rgbToHex(fill.color),
+    stroke: hasStroke ? { color: rgbToHex(outline.color), width: Math.max(1, Math.round(fontSize * 0.06)) } : null,
+  };
+};
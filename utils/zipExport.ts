@@ -0,0 +1,66 @@
+import JSZip from "jszip";
+import { LayerData, ProcessingResult } from "../types";
+import { cutoutLayer, toFileName } from "./imageProcessing";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+const splitDataUrl = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(",");
+  const mimeType = /data:([^;]+)/.exec(header)?.[1] ?? "image/png";
+  return { mimeType, data };
+};
+
+/**
+ * Bundles everything produced for a thumbnail into a single ZIP archive:
+ * the original image, every layer cutout, the raw result JSON and a manifest
+ * mapping the layer files back to their ids, boxes and stacking order.
+ */
+export const buildZipBundle = async (
+  imageElement: HTMLImageElement,
+  imageSrc: string,
+  result: ProcessingResult
+): Promise<Blob> => {
+  const zip = new JSZip();
+
+  const original = splitDataUrl(imageSrc);
+  const originalName = `original.${EXTENSIONS[original.mimeType] ?? "png"}`;
+  zip.file(originalName, original.data, { base64: true });
+
+  const sorted = [...result.layers].sort((a, b) => a.zIndex - b.zIndex);
+  const padding = String(sorted.length).length;
+
+  const manifestLayers = await Promise.all(sorted.map(async (layer: LayerData, index) => {
+    const file = `layers/${String(index + 1).padStart(padding, "0")}_${toFileName(layer.label)}.png`;
+    const cutout = await cutoutLayer(imageElement, layer);
+    zip.file(file, splitDataUrl(cutout).data, { base64: true });
+    return {
+      file,
+      id: layer.id,
+      label: layer.label,
+      type: layer.type,
+      box: layer.box,
+      zIndex: layer.zIndex,
+      group: layer.group ?? null,
+      text: layer.text ?? null,
+      face: layer.face ?? null,
+      visible: layer.visible,
+      masked: Boolean(layer.maskUrl),
+      cleanPlate: Boolean(layer.fillUrl),
+    };
+  }));
+
+  zip.file("result.json", JSON.stringify(result, null, 2));
+  zip.file("manifest.json", JSON.stringify({
+    original: originalName,
+    width: imageElement.naturalWidth,
+    height: imageElement.naturalHeight,
+    layers: manifestLayers,
+  }, null, 2));
+
+  return zip.generateAsync({ type: "blob" });
+};